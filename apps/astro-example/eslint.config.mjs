@@ -26,13 +26,12 @@ export default tseslint.config(
       'no-server-imports/no-server-imports': [
         'error',
         {
-          // Note on Astro's model: component frontmatter (the `---` block) runs
-          // on the server, so importing Node-only modules there is technically
-          // safe. The rule still guards pages/components/islands because that
-          // code is the path most likely to ship to the browser — a hydrated
-          // island or a client `<script>` reaching for `fs` or `pino` is the
-          // leak this catches. Move genuinely server-only work into endpoints
-          // (api/, *.server.ts) so it stays exempt.
+          // Astro's model: component frontmatter (the `---` block) runs on the
+          // server, so importing Node-only modules there is safe. What ships
+          // to the browser is a client `<script>` block or a component
+          // hydrated with a `client:*` directive, and astroAware checks
+          // exactly those.
+          astroAware: true,
           clientFilePatterns: ['**/pages/**', '**/components/**', '**/islands/**'],
 
           // Files that are genuinely server-only and so exempt from the rule.
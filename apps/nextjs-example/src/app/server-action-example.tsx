@@ -3,15 +3,16 @@
 
 // Type-only imports are always safe
 import type { Logger } from 'pino';
+// A server-only module is fine when it is only used inside Server Actions
+import { appendFile } from 'node:fs/promises';
 
 // Client component that calls server actions
 export default function ServerActionExample() {
   async function handleSubmit(formData: FormData) {
     'use server';
     // Server-only code goes here - this runs on the server
-    // In a real app, you'd import and use server modules here
     const name = formData.get('name');
-    console.log('Server received:', name);
+    await appendFile('submissions.log', `${name}\n`);
   }
 
   return (
@@ -28,7 +29,7 @@ export default function ServerActionExample() {
       <ul>
         <li>Server Actions (with &apos;use server&apos;) run only on the server</li>
         <li>Type-only imports are erased at compile time</li>
-        <li>No server modules are imported at the component level</li>
+        <li>node:fs/promises is only used inside the Server Action</li>
       </ul>
     </div>
   );
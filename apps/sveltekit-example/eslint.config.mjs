@@ -1,7 +1,7 @@
 import eslint from '@eslint/js';
 import tseslint from 'typescript-eslint';
 import sveltePlugin from 'eslint-plugin-svelte';
-import noServerImports from 'eslint-plugin-no-server-imports';
+import noServerImports, { FRAMEWORK_DEFAULTS } from 'eslint-plugin-no-server-imports';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
@@ -31,6 +31,7 @@ const serverFilePatterns = [
   '**/+server.ts',
   '**/+page.server.ts',
   '**/+layout.server.ts',
+  '**/src/lib/server/**',
 ];
 
 export default tseslint.config(
@@ -63,7 +64,10 @@ export default tseslint.config(
         {
           // The rule bans genuinely Node-only *modules* (node:* built-ins, pino,
           // database drivers, …) from client code — not file-to-file imports.
-          // Add project-specific server-only packages via `serverModules` here.
+          // SvelteKit's own private modules ($lib/server, $env/static/private,
+          // $env/dynamic/private, $app/server) come from the SvelteKit profile;
+          // add project-specific server-only packages alongside them.
+          serverModules: FRAMEWORK_DEFAULTS.sveltekit.serverModules,
           clientFilePatterns,
           serverFilePatterns,
         },
@@ -0,0 +1,73 @@
+/**
+ * Browser Globals
+ * ===============
+ * Finds references to browser globals that don't exist during SSR
+ * (`window`, `document`, `localStorage`, ...), using scope analysis so local
+ * variables with the same name are ignored.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+import { getGlobalReferences } from './node-globals';
+
+/**
+ * Browser globals that Node.js doesn't provide. Globals that exist in both
+ * (`fetch`, `URL`, `crypto`, `navigator` in Node 21+) are left out.
+ */
+const BROWSER_GLOBALS = [
+  'window',
+  'document',
+  'localStorage',
+  'sessionStorage',
+  'indexedDB',
+  'location',
+  'history',
+  'alert',
+  'confirm',
+  'prompt',
+  'matchMedia',
+  'getComputedStyle',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+  'requestIdleCallback',
+  'customElements',
+  'HTMLElement',
+  'IntersectionObserver',
+  'MutationObserver',
+  'ResizeObserver',
+];
+
+/** A reference to a browser global, like `localStorage` */
+export interface BrowserGlobalReference {
+  node: TSESTree.Node;
+  name: string;
+}
+
+/**
+ * Finds references to browser globals in a file, skipping `typeof` checks
+ * and anything in `allowed`
+ */
+export function findBrowserGlobalReferences(
+  sourceCode: TSESLint.SourceCode,
+  allowed: ReadonlySet<string>
+): BrowserGlobalReference[] {
+  const globalScope = sourceCode.scopeManager?.globalScope;
+  if (!globalScope) {
+    return [];
+  }
+
+  const found: BrowserGlobalReference[] = [];
+  for (const name of BROWSER_GLOBALS) {
+    if (allowed.has(name)) {
+      continue;
+    }
+    for (const { identifier } of getGlobalReferences(globalScope, name)) {
+      const parent = identifier.parent;
+      if (parent?.type === AST_NODE_TYPES.UnaryExpression && parent.operator === 'typeof') {
+        continue;
+      }
+      found.push({ node: identifier, name });
+    }
+  }
+  return found;
+}
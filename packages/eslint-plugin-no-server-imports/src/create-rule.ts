@@ -0,0 +1,6 @@
+import { ESLintUtils } from '@typescript-eslint/utils';
+
+/** Creates a rule whose docs link points at the plugin README */
+export const createRule = ESLintUtils.RuleCreator(
+  () => 'https://github.com/jagreehal/eslint-plugin-no-server-imports#readme'
+);
@@ -0,0 +1,253 @@
+/**
+ * File Classification
+ * ===================
+ * Decides whether a linted file is client code, server code, or neither,
+ * from path patterns, directives and framework file conventions. Shared by
+ * every rule that only checks one side of the client/server boundary.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { JSONSchema, TSESLint, TSESTree } from '@typescript-eslint/utils';
+import picomatch from 'picomatch';
+
+/** Default file patterns that indicate server-only code */
+export const DEFAULT_SERVER_FILE_PATTERNS = [
+  '**/*.server.ts',
+  '**/*.server.tsx',
+  '**/*.server.js',
+  '**/server/**',
+  '**/api/**',
+  '**/_server/**',
+];
+
+/** Default file patterns that indicate client code */
+export const DEFAULT_CLIENT_FILE_PATTERNS = [
+  '**/routes/**',
+  '**/pages/**',
+  '**/components/**',
+  '**/islands/**',
+  '**/src/app/**', // Next.js app directory (in src)
+  // Note: For Next.js root-level app/, users should configure clientFilePatterns
+  // We can't use '**/app/**' as it's too broad and matches paths like '/myapp/src/...'
+];
+
+/** Options that decide which files are client code */
+export interface FileClassificationOptions {
+  /** Additional server-only file patterns to check (merged with defaults) */
+  serverFilePatterns?: string[];
+  /** File patterns that indicate client code (overrides defaults if provided) */
+  clientFilePatterns?: string[];
+  /** File patterns to completely ignore */
+  ignoreFiles?: string[];
+  /** File selection mode: 'client-only' checks only clientFilePatterns, 'all-non-server' checks all except server files */
+  mode?: 'client-only' | 'all-non-server';
+  /**
+   * When true, the `'use client'` directive (not the file path) decides whether a
+   * file is client code. A file that declares `'use client'` is always checked,
+   * even outside clientFilePatterns; a file WITHOUT the directive that matches
+   * serverComponentPatterns is treated as a React Server Component and skipped
+   * (it may legitimately import server-only modules). Designed for the Next.js
+   * App Router, where client and server components are intermixed by path.
+   */
+  directiveAware?: boolean;
+  /**
+   * Path patterns that are React Server Components by default and are only
+   * checked when they declare `'use client'`. Only used when `directiveAware`
+   * is true. Defaults to `clientFilePatterns`.
+   */
+  serverComponentPatterns?: string[];
+  /**
+   * When true, `.astro` files follow Astro's rendering model: the frontmatter
+   * runs on the server and isn't checked, client `<script>` blocks (linted as
+   * virtual `*.astro/*.ts` files by eslint-plugin-astro's processor) are
+   * always checked, and components rendered with a `client:*` directive are
+   * reported when their module imports server-only code.
+   */
+  astroAware?: boolean;
+}
+
+/** JSON schema properties for FileClassificationOptions */
+export const FILE_CLASSIFICATION_SCHEMA: NonNullable<
+  JSONSchema.JSONSchema4ObjectSchema['properties']
+> = {
+  serverFilePatterns: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Additional server-only file patterns',
+  },
+  clientFilePatterns: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'File patterns that indicate client code',
+  },
+  ignoreFiles: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'File patterns to ignore',
+  },
+  mode: {
+    type: 'string',
+    enum: ['client-only', 'all-non-server'],
+    description: 'File selection mode',
+  },
+  directiveAware: {
+    type: 'boolean',
+    description:
+      "Treat a file as client code only when it declares 'use client'; skip Server Components (matching serverComponentPatterns) that omit it",
+  },
+  serverComponentPatterns: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      "Path patterns checked only when they declare 'use client' (requires directiveAware; defaults to clientFilePatterns)",
+  },
+  astroAware: {
+    type: 'boolean',
+    description:
+      'Allow server-only imports in .astro frontmatter; check client <script> blocks and client:* islands',
+  },
+};
+
+/**
+ * What a linted file is, from the client/server boundary's point of view:
+ * - `ignored`: matches ignoreFiles
+ * - `server`: matches serverFilePatterns or is a `'use server'` module
+ * - `astro-component`: an `.astro` file with astroAware (server frontmatter, hydrated islands)
+ * - `server-component`: a React Server Component (directiveAware, no `'use client'`)
+ * - `client`: code that is bundled for the browser
+ * - `unchecked`: none of the above (outside clientFilePatterns in client-only mode)
+ */
+export type FileKind =
+  | 'ignored'
+  | 'server'
+  | 'astro-component'
+  | 'server-component'
+  | 'client'
+  | 'unchecked';
+
+/**
+ * Returns serverFilePatterns merged with the defaults
+ */
+export function getServerFilePatterns(options: FileClassificationOptions): string[] {
+  return [...DEFAULT_SERVER_FILE_PATTERNS, ...(options.serverFilePatterns || [])];
+}
+
+/**
+ * Checks if a node is a directive prologue (e.g., 'use client', 'use strict')
+ */
+export function isDirectivePrologue(node: TSESTree.Statement): boolean {
+  return (
+    node.type === AST_NODE_TYPES.ExpressionStatement &&
+    node.expression.type === AST_NODE_TYPES.Literal &&
+    typeof node.expression.value === 'string'
+  );
+}
+
+/**
+ * Checks if a statement list (program or function body) starts with a
+ * directive prologue containing the given directive
+ */
+export function hasDirective(statements: TSESTree.Statement[], directive: string): boolean {
+  for (const node of statements) {
+    if (!isDirectivePrologue(node)) break;
+    const expr = (node as TSESTree.ExpressionStatement).expression as TSESTree.Literal;
+    if (expr.value === directive) return true;
+  }
+  return false;
+}
+
+/**
+ * Checks if the file has a 'use client' directive
+ */
+export function hasUseClientDirective(sourceCode: TSESLint.SourceCode): boolean {
+  const ast = sourceCode.ast;
+  if (!ast.body || ast.body.length === 0) return false;
+  return hasDirective(ast.body, 'use client');
+}
+
+/**
+ * Checks if the file has a top-level 'use server' directive (a Server Actions module)
+ */
+export function hasUseServerDirective(sourceCode: TSESLint.SourceCode): boolean {
+  const ast = sourceCode.ast;
+  if (!ast.body || ast.body.length === 0) return false;
+  return hasDirective(ast.body, 'use server');
+}
+
+/**
+ * Finds the top-level import of a marker package (`server-only` or `client-only`)
+ */
+export function findMarkerImport(
+  sourceCode: TSESLint.SourceCode,
+  marker: 'server-only' | 'client-only'
+): TSESTree.ImportDeclaration | undefined {
+  return sourceCode.ast.body.find(
+    (statement): statement is TSESTree.ImportDeclaration =>
+      statement.type === AST_NODE_TYPES.ImportDeclaration && statement.source.value === marker
+  );
+}
+
+/**
+ * Checks if the file imports the `server-only` marker package
+ */
+export function hasServerOnlyMarker(sourceCode: TSESLint.SourceCode): boolean {
+  return findMarkerImport(sourceCode, 'server-only') !== undefined;
+}
+
+/**
+ * Classifies the linted file. Checks run in order: ignoreFiles, server files,
+ * Astro components, Server Components, then client files.
+ */
+export function classifyFile(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  options: FileClassificationOptions
+): FileKind {
+  // Normalize Windows paths to POSIX for picomatch (backslashes are treated as escapes)
+  const filename = context.filename.replaceAll('\\', '/');
+  const { sourceCode } = context;
+  const clientFilePatterns = options.clientFilePatterns || DEFAULT_CLIENT_FILE_PATTERNS;
+
+  const ignoreFiles = options.ignoreFiles || [];
+  if (ignoreFiles.length > 0 && picomatch(ignoreFiles)(filename)) {
+    return 'ignored';
+  }
+
+  // Server files by path, or a 'use server' Server Actions module
+  if (picomatch(getServerFilePatterns(options))(filename) || hasUseServerDirective(sourceCode)) {
+    return 'server';
+  }
+
+  const astroAware = options.astroAware ?? false;
+  if (astroAware && filename.endsWith('.astro')) {
+    return 'astro-component';
+  }
+
+  // Directive-aware selection (Next.js App Router): the 'use client' directive,
+  // not the path, decides whether a file is client code. A file that declares
+  // 'use client' is always checked; a Server Component (matches
+  // serverComponentPatterns) that omits it may import server-only modules.
+  const directiveAware = options.directiveAware ?? false;
+  const isDirectiveClient = directiveAware && hasUseClientDirective(sourceCode);
+  // Server Components live in the same dirs as client components, so default to
+  // clientFilePatterns: within those dirs, only 'use client' files are checked.
+  const serverComponentPatterns = options.serverComponentPatterns || clientFilePatterns;
+  if (directiveAware && !isDirectiveClient && picomatch(serverComponentPatterns)(filename)) {
+    return 'server-component';
+  }
+
+  // Client <script> blocks of .astro files, extracted by eslint-plugin-astro's
+  // processor as virtual files like `page.astro/0_0.ts`, run in the browser
+  const isAstroClientScript = astroAware && /\.astro\/[^/]+$/.test(filename);
+
+  // mode === 'all-non-server': check all files except server files (already filtered above)
+  const mode = options.mode || 'client-only';
+  if (
+    mode === 'all-non-server' ||
+    picomatch(clientFilePatterns)(filename) ||
+    isDirectiveClient || // a 'use client' file is client even outside clientFilePatterns
+    isAstroClientScript
+  ) {
+    return 'client';
+  }
+  return 'unchecked';
+}
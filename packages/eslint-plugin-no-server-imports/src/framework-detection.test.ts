@@ -50,6 +50,14 @@ describe('framework-detection', () => {
       expect(result).toBe('next');
     });
 
+    it('detects Nuxt from nuxt.config.ts', () => {
+      writeFileSync(path.join(tempDir, 'nuxt.config.ts'), 'export default defineNuxtConfig({})');
+      writeFileSync(path.join(tempDir, 'package.json'), '{}');
+
+      const result = detectFramework(path.join(tempDir, 'pages/index.vue'));
+      expect(result).toBe('nuxt');
+    });
+
     it('detects Astro from astro.config.mjs', () => {
       writeFileSync(path.join(tempDir, 'astro.config.mjs'), 'export default {}');
       writeFileSync(path.join(tempDir, 'package.json'), '{}');
@@ -66,6 +74,68 @@ describe('framework-detection', () => {
       expect(result).toBe('sveltekit');
     });
 
+    it('detects React Router from react-router.config.ts', () => {
+      writeFileSync(path.join(tempDir, 'react-router.config.ts'), 'export default {}');
+      writeFileSync(path.join(tempDir, 'package.json'), '{}');
+
+      const result = detectFramework(path.join(tempDir, 'app/routes/_index.tsx'));
+      expect(result).toBe('react-router');
+    });
+
+    it('detects Remix from remix.config.js', () => {
+      writeFileSync(path.join(tempDir, 'remix.config.js'), 'module.exports = {}');
+      writeFileSync(path.join(tempDir, 'package.json'), '{}');
+
+      const result = detectFramework(path.join(tempDir, 'app/routes/_index.tsx'));
+      expect(result).toBe('remix');
+    });
+
+    it('detects SolidStart from app.config.ts', () => {
+      writeFileSync(
+        path.join(tempDir, 'app.config.ts'),
+        "import { defineConfig } from '@solidjs/start/config';\nexport default defineConfig({});"
+      );
+      writeFileSync(path.join(tempDir, 'package.json'), '{}');
+
+      const result = detectFramework(path.join(tempDir, 'src/routes/index.tsx'));
+      expect(result).toBe('solid-start');
+    });
+
+    it('ignores app.config.ts from other frameworks', () => {
+      writeFileSync(
+        path.join(tempDir, 'app.config.ts'),
+        "import { defineConfig } from '@tanstack/react-start/config';\nexport default defineConfig({});"
+      );
+      writeFileSync(path.join(tempDir, 'package.json'), '{}');
+
+      const result = detectFramework(path.join(tempDir, 'src/routes/index.tsx'));
+      expect(result).toBe('unknown');
+    });
+
+    it('detects SolidStart from package.json dependencies', () => {
+      writeFileSync(
+        path.join(tempDir, 'package.json'),
+        JSON.stringify({
+          dependencies: { '@solidjs/start': '^1.0.0', 'solid-js': '^1.8.0' },
+        })
+      );
+
+      const result = detectFramework(path.join(tempDir, 'src/routes/index.tsx'));
+      expect(result).toBe('solid-start');
+    });
+
+    it('detects Qwik City from package.json devDependencies', () => {
+      writeFileSync(
+        path.join(tempDir, 'package.json'),
+        JSON.stringify({
+          devDependencies: { '@builder.io/qwik': '^1.0.0', '@builder.io/qwik-city': '^1.0.0' },
+        })
+      );
+
+      const result = detectFramework(path.join(tempDir, 'src/routes/index.tsx'));
+      expect(result).toBe('qwik');
+    });
+
     it('detects Next.js from package.json dependencies', () => {
       writeFileSync(
         path.join(tempDir, 'package.json'),
@@ -90,6 +160,18 @@ describe('framework-detection', () => {
       expect(result).toBe('astro');
     });
 
+    it('detects Nuxt from package.json dependencies', () => {
+      writeFileSync(
+        path.join(tempDir, 'package.json'),
+        JSON.stringify({
+          dependencies: { nuxt: '^3.0.0', vue: '^3.0.0' },
+        })
+      );
+
+      const result = detectFramework(path.join(tempDir, 'pages/index.vue'));
+      expect(result).toBe('nuxt');
+    });
+
     it('detects SvelteKit from package.json devDependencies', () => {
       writeFileSync(
         path.join(tempDir, 'package.json'),
@@ -102,6 +184,31 @@ describe('framework-detection', () => {
       expect(result).toBe('sveltekit');
     });
 
+    it('detects React Router from package.json devDependencies', () => {
+      writeFileSync(
+        path.join(tempDir, 'package.json'),
+        JSON.stringify({
+          dependencies: { 'react-router': '^7.0.0', '@react-router/node': '^7.0.0' },
+          devDependencies: { '@react-router/dev': '^7.0.0' },
+        })
+      );
+
+      const result = detectFramework(path.join(tempDir, 'app/routes/_index.tsx'));
+      expect(result).toBe('react-router');
+    });
+
+    it('detects Remix from any @remix-run/* dependency', () => {
+      writeFileSync(
+        path.join(tempDir, 'package.json'),
+        JSON.stringify({
+          dependencies: { '@remix-run/node': '^2.0.0', '@remix-run/react': '^2.0.0' },
+        })
+      );
+
+      const result = detectFramework(path.join(tempDir, 'app/routes/_index.tsx'));
+      expect(result).toBe('remix');
+    });
+
     it('returns unknown when no framework detected', () => {
       writeFileSync(
         path.join(tempDir, 'package.json'),
@@ -199,6 +306,32 @@ describe('framework-detection', () => {
     it('has client and server patterns for SvelteKit', () => {
       expect(FRAMEWORK_DEFAULTS.sveltekit.clientFilePatterns).toContain('**/src/routes/**');
       expect(FRAMEWORK_DEFAULTS.sveltekit.serverFilePatterns).toContain('**/+server.ts');
+      expect(FRAMEWORK_DEFAULTS.sveltekit.serverModules).toContain('$env/static/private');
+      expect(FRAMEWORK_DEFAULTS.sveltekit.serverModules).toContain('$lib/server');
+    });
+
+    it('has client and server patterns for SolidStart', () => {
+      expect(FRAMEWORK_DEFAULTS['solid-start'].clientFilePatterns).toContain('**/src/routes/**');
+      expect(FRAMEWORK_DEFAULTS['solid-start'].serverFilePatterns).toContain('**/src/routes/api/**');
+    });
+
+    it('has client and server patterns for Qwik', () => {
+      expect(FRAMEWORK_DEFAULTS.qwik.clientFilePatterns).toContain('**/src/routes/**');
+      expect(FRAMEWORK_DEFAULTS.qwik.serverFilePatterns).toContain('**/src/entry.ssr.tsx');
+    });
+
+    it('has client and server patterns for Nuxt', () => {
+      expect(FRAMEWORK_DEFAULTS.nuxt.clientFilePatterns).toContain('**/components/**');
+      expect(FRAMEWORK_DEFAULTS.nuxt.clientFilePatterns).toContain('**/pages/**');
+      expect(FRAMEWORK_DEFAULTS.nuxt.serverFilePatterns).toContain('**/server/**');
+      expect(FRAMEWORK_DEFAULTS.nuxt.serverFilePatterns).toContain('**/*.server.vue');
+    });
+
+    it('has client and server patterns for Remix and React Router', () => {
+      expect(FRAMEWORK_DEFAULTS['react-router'].clientFilePatterns).toContain('**/app/routes/**');
+      expect(FRAMEWORK_DEFAULTS['react-router'].serverFilePatterns).toContain('**/*.server.ts');
+      expect(FRAMEWORK_DEFAULTS['react-router'].serverFilePatterns).toContain('**/.server/**');
+      expect(FRAMEWORK_DEFAULTS.remix).toEqual(FRAMEWORK_DEFAULTS['react-router']);
     });
 
     it('has fallback patterns for unknown', () => {
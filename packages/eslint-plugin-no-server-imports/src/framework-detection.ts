@@ -8,13 +8,50 @@
 import { existsSync, readFileSync, statSync } from 'node:fs';
 import path from 'node:path';
 
-export type DetectedFramework = 'next' | 'astro' | 'sveltekit' | 'tanstack-start' | 'unknown';
+export type DetectedFramework =
+  | 'next'
+  | 'astro'
+  | 'sveltekit'
+  | 'tanstack-start'
+  | 'remix'
+  | 'react-router'
+  | 'nuxt'
+  | 'solid-start'
+  | 'qwik'
+  | 'unknown';
 
 export interface FrameworkDefaults {
   clientFilePatterns: string[];
   serverFilePatterns: string[];
+  /** Framework-provided server-only modules (e.g. SvelteKit's `$env/static/private`) */
+  serverModules?: string[];
+  /** Prefixes of environment variables the framework exposes to client code */
+  publicEnvPrefixes?: string[];
 }
 
+/**
+ * Remix and React Router v7 framework mode share the same conventions:
+ * routes live under app/, and `*.server.*` files and `.server/` directories
+ * are never bundled for the client.
+ */
+const REACT_ROUTER_DEFAULTS: FrameworkDefaults = {
+  clientFilePatterns: [
+    '**/app/routes/**',
+    '**/app/components/**',
+    '**/app/root.tsx',
+    '**/app/root.jsx',
+  ],
+  serverFilePatterns: [
+    '**/*.server.ts',
+    '**/*.server.tsx',
+    '**/*.server.js',
+    '**/*.server.jsx',
+    '**/.server/**',
+    '**/entry.server.*',
+  ],
+  publicEnvPrefixes: ['VITE_'],
+};
+
 /**
  * Framework-specific default configurations
  */
@@ -33,6 +70,7 @@ export const FRAMEWORK_DEFAULTS: Record<DetectedFramework, FrameworkDefaults> =
       '**/server/**',
       '**/actions/**',
     ],
+    publicEnvPrefixes: ['NEXT_PUBLIC_'],
   },
   astro: {
     clientFilePatterns: [
@@ -46,11 +84,12 @@ export const FRAMEWORK_DEFAULTS: Record<DetectedFramework, FrameworkDefaults> =
       '**/server/**',
       '**/api/**/*.ts',
     ],
+    publicEnvPrefixes: ['PUBLIC_'],
   },
   sveltekit: {
     clientFilePatterns: [
       '**/src/routes/**',
-      '**/src/lib/components/**',
+      '**/src/lib/**',
     ],
     serverFilePatterns: [
       '**/*.server.ts',
@@ -59,7 +98,16 @@ export const FRAMEWORK_DEFAULTS: Record<DetectedFramework, FrameworkDefaults> =
       '**/+server.js',
       '**/+page.server.ts',
       '**/+layout.server.ts',
+      '**/src/lib/server/**',
     ],
+    // `$lib/server` also matches relative imports into the lib/server directory
+    serverModules: [
+      '$lib/server',
+      '$env/static/private',
+      '$env/dynamic/private',
+      '$app/server',
+    ],
+    publicEnvPrefixes: ['PUBLIC_'],
   },
   'tanstack-start': {
     clientFilePatterns: [
@@ -72,6 +120,49 @@ export const FRAMEWORK_DEFAULTS: Record<DetectedFramework, FrameworkDefaults> =
       '**/server/**',
       '**/api/**',
     ],
+    publicEnvPrefixes: ['VITE_'],
+  },
+  remix: REACT_ROUTER_DEFAULTS,
+  'react-router': REACT_ROUTER_DEFAULTS,
+  nuxt: {
+    clientFilePatterns: [
+      '**/components/**',
+      '**/pages/**',
+      '**/layouts/**',
+      '**/app.vue',
+    ],
+    serverFilePatterns: [
+      '**/server/**',
+      '**/*.server.vue',
+      '**/*.server.ts',
+    ],
+    publicEnvPrefixes: ['NUXT_PUBLIC_', 'VITE_'],
+  },
+  'solid-start': {
+    clientFilePatterns: [
+      '**/src/routes/**',
+      '**/src/components/**',
+    ],
+    serverFilePatterns: [
+      '**/*.server.ts',
+      '**/*.server.tsx',
+      '**/server/**',
+      '**/src/routes/api/**',
+    ],
+    publicEnvPrefixes: ['VITE_'],
+  },
+  qwik: {
+    clientFilePatterns: [
+      '**/src/routes/**',
+      '**/src/components/**',
+    ],
+    serverFilePatterns: [
+      '**/*.server.ts',
+      '**/*.server.tsx',
+      '**/server/**',
+      '**/src/entry.ssr.tsx',
+    ],
+    publicEnvPrefixes: ['PUBLIC_', 'VITE_'],
   },
   unknown: {
     clientFilePatterns: [
@@ -89,13 +180,14 @@ export const FRAMEWORK_DEFAULTS: Record<DetectedFramework, FrameworkDefaults> =
       '**/api/**',
       '**/_server/**',
     ],
+    publicEnvPrefixes: ['NEXT_PUBLIC_', 'VITE_', 'PUBLIC_'],
   },
 };
 
 /**
  * Finds the root directory of the project by looking for package.json
  */
-function findProjectRoot(startDir: string): string | null {
+export function findProjectRoot(startDir: string): string | null {
   let current = startDir;
 
   // Walk up the directory tree looking for package.json
@@ -117,6 +209,25 @@ function configExists(dir: string, baseName: string): boolean {
   return extensions.some(ext => existsSync(path.join(dir, `${baseName}${ext}`)));
 }
 
+/**
+ * Checks if a config file exists and mentions a module, for config file
+ * names shared by several frameworks (e.g. Vinxi's app.config.ts)
+ */
+function configReferences(dir: string, baseName: string, moduleName: string): boolean {
+  const extensions = ['.js', '.mjs', '.cjs', '.ts', '.mts'];
+  return extensions.some((ext) => {
+    const configPath = path.join(dir, `${baseName}${ext}`);
+    if (!existsSync(configPath)) {
+      return false;
+    }
+    try {
+      return readFileSync(configPath, 'utf8').includes(moduleName);
+    } catch {
+      return false;
+    }
+  });
+}
+
 /**
  * Package.json structure for dependency checking
  */
@@ -147,12 +258,27 @@ function checkPackageJsonDependencies(projectRoot: string): DetectedFramework {
     if (allDeps['next']) {
       return 'next';
     }
+    if (allDeps['nuxt']) {
+      return 'nuxt';
+    }
     if (allDeps['@sveltejs/kit']) {
       return 'sveltekit';
     }
     if (allDeps['@tanstack/react-start']) {
       return 'tanstack-start';
     }
+    if (allDeps['@solidjs/start']) {
+      return 'solid-start';
+    }
+    if (allDeps['@builder.io/qwik-city']) {
+      return 'qwik';
+    }
+    if (allDeps['@react-router/dev']) {
+      return 'react-router';
+    }
+    if (Object.keys(allDeps).some((dep) => dep.startsWith('@remix-run/'))) {
+      return 'remix';
+    }
     if (allDeps['astro']) {
       return 'astro';
     }
@@ -171,12 +297,24 @@ function checkConfigFiles(projectRoot: string): DetectedFramework {
   if (configExists(projectRoot, 'next.config')) {
     return 'next';
   }
+  if (configExists(projectRoot, 'nuxt.config')) {
+    return 'nuxt';
+  }
   if (configExists(projectRoot, 'svelte.config')) {
     return 'sveltekit';
   }
   if (configExists(projectRoot, 'astro.config')) {
     return 'astro';
   }
+  if (configExists(projectRoot, 'react-router.config')) {
+    return 'react-router';
+  }
+  if (configExists(projectRoot, 'remix.config')) {
+    return 'remix';
+  }
+  if (configReferences(projectRoot, 'app.config', '@solidjs/start')) {
+    return 'solid-start';
+  }
 
   return 'unknown';
 }
@@ -200,8 +338,10 @@ function isDirectory(filePath: string): boolean {
  * Detects the framework being used in the project.
  *
  * Detection priority:
- * 1. Config files (most reliable): next.config.*, astro.config.*, svelte.config.*
- * 2. Package.json dependencies: "next", "astro", "@sveltejs/kit"
+ * 1. Config files (most reliable): next.config.*, nuxt.config.*, astro.config.*,
+ *    svelte.config.*, react-router.config.*, remix.config.*, app.config.* (SolidStart)
+ * 2. Package.json dependencies: "next", "nuxt", "astro", "@sveltejs/kit", "@react-router/dev",
+ *    "@remix-run/*", "@solidjs/start", "@builder.io/qwik-city"
  *
  * @param filePath - Path to a file or directory in the project (used to find project root)
  * @returns The detected framework or 'unknown'
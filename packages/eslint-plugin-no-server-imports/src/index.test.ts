@@ -1,6 +1,12 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import { RuleTester } from '@typescript-eslint/rule-tester';
 import { afterAll, describe, it } from 'vitest';
 import * as parser from '@typescript-eslint/parser';
+import * as astroParser from 'astro-eslint-parser';
+import * as svelteParser from 'svelte-eslint-parser';
+import vueParser from 'vue-eslint-parser';
 import plugin from './index';
 
 // Configure RuleTester to use Vitest's lifecycle
@@ -15,6 +21,7 @@ RuleTester.it = it;
 const importSuggestions = 1;
 const requireSuggestions = 1;
 const reexportSuggestions = 1;
+const dynamicImportSuggestions = 1;
 
 const ruleTester = new RuleTester({
   languageOptions: {
@@ -29,6 +36,26 @@ const ruleTester = new RuleTester({
 // Run the RuleTester directly (not inside it blocks!)
 // RuleTester creates its own describe/it blocks internally
 
+// On-disk project for rules that resolve and read local modules.
+// Created at load time because RuleTester cases are built before tests run.
+const fixtureRoot = mkdtempSync(path.join(tmpdir(), 'no-server-imports-'));
+afterAll(() => {
+  rmSync(fixtureRoot, { recursive: true, force: true });
+});
+
+/** Writes a file under the fixture project and returns its absolute path */
+function writeFixture(relativePath: string, content: string): string {
+  const filePath = path.join(fixtureRoot, relativePath);
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content);
+  return filePath;
+}
+
+/** Absolute path of a (possibly not yet written) file in the fixture project */
+function fixturePath(relativePath: string): string {
+  return path.join(fixtureRoot, relativePath);
+}
+
 ruleTester.run('no-server-imports - basic', plugin.rules['no-server-imports'], {
   valid: [
     // Server files should be ignored
@@ -91,9 +118,9 @@ ruleTester.run('no-server-imports - basic', plugin.rules['no-server-imports'], {
       filename: '/app/src/lib/logger.ts',
     },
 
-    // Dynamic imports inside functions (OK)
+    // Dynamic imports inside server function callbacks (OK)
     {
-      code: `async function log() { const pino = await import('pino'); }`,
+      code: `const fn = createServerFn().handler(async () => { const pino = await import('pino'); });`,
       filename: '/app/src/routes/index.tsx',
     },
 
@@ -671,6 +698,150 @@ ruleTester.run('no-server-imports - export all', plugin.rules['no-server-imports
   ],
 });
 
+// Test dynamic import() expressions
+ruleTester.run('no-server-imports - dynamic imports', plugin.rules['no-server-imports'], {
+  valid: [
+    // Dynamic import inside server function callback - ALLOWED
+    {
+      code: `const fn = createServerFn().handler(async () => { const fs = await import('fs'); });`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Template literal specifier inside server function callback - ALLOWED
+    {
+      code: 'const fn = server$(async () => { const { Pool } = await import(`pg`); });',
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Non-server module dynamically imported at top level - ALLOWED
+    {
+      code: `const chart = await import('chart.js');`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Computed specifier can't be resolved statically - ignored
+    {
+      code: 'const name = "fs";\nconst mod = await import(`${name}`);',
+      filename: '/app/src/routes/index.tsx',
+    },
+    // server-only marker opts the file out
+    {
+      code: `import 'server-only';\nconst fs = await import('fs');`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Server files are skipped
+    {
+      code: `const fs = await import('fs');`,
+      filename: '/app/src/server/files.ts',
+    },
+  ],
+
+  invalid: [
+    // Top-level dynamic import in a client file - BLOCKED
+    {
+      code: `const fs = await import('fs');`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // Constant template literal specifier - BLOCKED
+    {
+      code: 'const { Pool } = await import(`pg`);',
+      filename: '/app/src/components/Users.tsx',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // Subpath of a server-only module - BLOCKED
+    {
+      code: `const { readFile } = await import('node:fs/promises');`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // Inside an ordinary function (e.g. an event handler) - still client code
+    {
+      code: `async function log() { const pino = await import('pino'); }`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // Dynamic import next to, but outside, a server function - BLOCKED
+    {
+      code: `const fn = createServerFn().handler(() => {});\nimport('pino').then((m) => m.default());`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // 'use client' files get no server-only marker suggestion
+    {
+      code: `'use client';\nconst fs = await import('fs');`,
+      filename: '/app/src/components/counter.tsx',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: 0 }],
+    },
+  ],
+});
+
+// Test 'use server' directives (Next.js Server Actions)
+ruleTester.run("no-server-imports - 'use server' directives", plugin.rules['no-server-imports'], {
+  valid: [
+    // Top-level 'use server' marks a Server Actions module - file is skipped
+    {
+      code: `'use server';\nimport { Pool } from 'pg';\nexport async function save() { await new Pool().query('x'); }`,
+      filename: '/app/src/app/actions.ts',
+    },
+    // 'use server' after another directive is still part of the prologue
+    {
+      code: `'use strict';\n'use server';\nimport fs from 'fs';\nexport const read = () => fs.readFileSync('x');`,
+      filename: '/app/src/routes/actions.ts',
+    },
+    // Inline Server Action (function declaration) using a server-only module
+    {
+      code: `import { Pool } from 'pg';\nexport default function Page() {\n  async function save(formData) {\n    'use server';\n    await new Pool().query('INSERT', [formData.get('name')]);\n  }\n  return save;\n}`,
+      filename: '/app/src/app/page.tsx',
+    },
+    // Inline Server Action (arrow function)
+    {
+      code: `import fs from 'node:fs/promises';\nconst save = async () => {\n  'use server';\n  await fs.writeFile('x', 'y');\n};`,
+      filename: '/app/src/components/Form.tsx',
+    },
+    // Inline Server Action (function expression) with require
+    {
+      code: `const pino = require('pino');\nconst action = async function () {\n  'use server';\n  pino().info('saved');\n};`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Dynamic import inside an inline Server Action
+    {
+      code: `async function save() {\n  'use server';\n  const { Pool } = await import('pg');\n}`,
+      filename: '/app/src/app/page.tsx',
+    },
+    // checkServerFunctions: false only affects server function callbacks
+    {
+      code: `import pino from 'pino';\nasync function save() {\n  'use server';\n  pino().info('x');\n}`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ checkServerFunctions: false }],
+    },
+  ],
+
+  invalid: [
+    // Import used outside the Server Action as well
+    {
+      code: `import { Pool } from 'pg';\nconst pool = new Pool();\nasync function save() {\n  'use server';\n  await pool.query('x');\n}`,
+      filename: '/app/src/app/page.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // 'use server' that isn't the first statement is not a directive
+    {
+      code: `import { Pool } from 'pg';\nasync function save() {\n  const x = 1;\n  'use server';\n  await new Pool().query('x');\n}`,
+      filename: '/app/src/app/page.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // 'use server' in a nested block doesn't mark the function
+    {
+      code: `import pino from 'pino';\nfunction log(flag) {\n  if (flag) {\n    'use server';\n  }\n  pino().info('x');\n}`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // File-level 'use server' after an import is not a directive
+    {
+      code: `import pino from 'pino';\n'use server';\npino();`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
 // Test namespace imports
 ruleTester.run('no-server-imports - namespace imports', plugin.rules['no-server-imports'], {
   valid: [
@@ -801,133 +972,1905 @@ ruleTester.run('no-server-imports - createIsomorphicFn', plugin.rules['no-server
   ],
 });
 
-// Test real-world patterns
-ruleTester.run('no-server-imports - real world patterns', plugin.rules['no-server-imports'], {
+// Test method-aware chains: .client() callbacks run in the browser
+ruleTester.run('no-server-imports - server function chain methods', plugin.rules['no-server-imports'], {
   valid: [
-    // Database query in server action (TanStack Start pattern)
+    // .server() uses the module, .client() doesn't
     {
-      code: `import { db } from '@prisma/client';\nconst getUsers = createServerFn().handler(async () => {\n  return db.user.findMany();\n});`,
-      filename: '/app/src/routes/users.tsx',
-      options: [{ serverModules: ['@prisma/client'] }],
+      code: `import { Pool } from 'pg';\nconst getCount = createIsomorphicFn()\n  .server(() => new Pool().query('SELECT 1'))\n  .client(() => 0);`,
+      filename: '/app/src/routes/index.tsx',
     },
-    // Correct pattern: create logger INSIDE server callback
+    // .client() before .server() in the chain
     {
-      code: `import pino from 'pino';\nexport const loader = loader$(async () => {\n  const logger = pino();\n  logger.info('Loading data');\n  return { data: 'test' };\n});`,
+      code: `import fs from 'fs';\nconst read = createIsomorphicFn()\n  .client(() => localStorage.getItem('x'))\n  .server(() => fs.readFileSync('x'));`,
       filename: '/app/src/routes/index.tsx',
     },
-    // File system access in API route simulation
+    // createServerFn middleware, inputValidator and handler all run on the server
     {
-      code: `import fs from 'fs';\nconst readConfig = createServerFn().handler(() => {\n  return JSON.parse(fs.readFileSync('config.json', 'utf-8'));\n});`,
-      filename: '/app/src/routes/config.tsx',
+      code: `import pino from 'pino';\nconst fn = createServerFn()\n  .middleware([authMiddleware])\n  .inputValidator((data) => { pino().debug(data); return data; })\n  .handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // createMiddleware().server() is a server scope when configured as a server function
+    {
+      code: `import pino from 'pino';\nconst logging = createMiddleware().server(({ next }) => { pino().info('req'); return next(); });`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: ['createServerFn', 'createMiddleware'] }],
     },
   ],
 
   invalid: [
-    // Accidental top-level logger initialization (common mistake!)
-    // pino() at top level is a client-side call
+    // Server-only module used inside .client() - BLOCKED
     {
-      code: `import pino from 'pino';\nconst logger = pino();\nexport const loader = loader$(async () => {\n  logger.info('Loading data');\n});`,
+      code: `import { Pool } from 'pg';\nconst getCount = createIsomorphicFn()\n  .server(() => 1)\n  .client(() => new Pool().query('SELECT 1'));`,
       filename: '/app/src/routes/index.tsx',
       errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
     },
-    // Accidental top-level usage (common mistake)
+    // Used in both .server() and .client() - BLOCKED
     {
-      code: `import pino from 'pino';\nconst logger = pino(); // This runs on client!\nexport const getServerData = createServerFn().handler(() => {\n  logger.info('server');\n});`,
+      code: `import fs from 'fs';\nconst read = createIsomorphicFn()\n  .server(() => fs.readFileSync('a'))\n  .client(() => fs.readFileSync('b'));`,
       filename: '/app/src/routes/index.tsx',
       errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
     },
-    // Importing for type but using value
+    // require() inside .client() - BLOCKED
     {
-      code: `import { PrismaClient } from '@prisma/client';\nconst prisma = new PrismaClient();`,
-      filename: '/app/src/components/UserList.tsx',
+      code: `const fn = createIsomorphicFn().client(() => { const fs = require('fs'); return fs.readFileSync('x'); });`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyRequire', suggestions: requireSuggestions }],
+    },
+    // Dynamic import inside .client() - BLOCKED
+    {
+      code: `const fn = createIsomorphicFn().client(async () => { const { Pool } = await import('pg'); });`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // createMiddleware().client() runs in the browser
+    {
+      code: `import pino from 'pino';\nconst logging = createMiddleware().client(({ next }) => { pino().info('req'); return next(); });`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: ['createServerFn', 'createMiddleware'] }],
       errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
     },
   ],
 });
 
-// Test require with serverExternalPackages
-ruleTester.run('no-server-imports - require with serverExternalPackages', plugin.rules['no-server-imports'], {
+// Test real-world patterns
+// Test SvelteKit private modules using the preset's options
+const svelteKitOptions = {
+  ...plugin.configs['recommended-sveltekit'].rules['no-server-imports/no-server-imports'][1],
+};
+
+writeFixture('kit/svelte.config.js', `export default { kit: {} };\n`);
+writeFixture('kit/src/lib/server/db.ts', `export const db = {};\n`);
+writeFixture(
+  'kit-custom/svelte.config.js',
+  `export default {\n  kit: {\n    files: { lib: 'app/lib' },\n  },\n};\n`
+);
+
+ruleTester.run('no-server-imports - SvelteKit private modules', plugin.rules['no-server-imports'], {
   valid: [
-    // require of serverExternalPackage inside server callback - ALLOWED
+    // Public env and non-server $lib modules
     {
-      code: `const fn = createServerFn().handler(() => { const pkg = require('my-native-pkg'); });`,
-      filename: '/app/src/routes/index.tsx',
-      options: [{ serverExternalPackages: ['my-native-pkg'] }],
+      code: `import { PUBLIC_API_URL } from '$env/static/public';\nimport { format } from '$lib/utils';\nexport const load = () => ({ url: format(PUBLIC_API_URL) });`,
+      filename: fixturePath('kit/src/routes/+page.ts'),
+      options: [svelteKitOptions],
+    },
+    // Private env in a server load function
+    {
+      code: `import { DATABASE_URL } from '$env/static/private';\nexport const load = () => ({ connected: Boolean(DATABASE_URL) });`,
+      filename: fixturePath('kit/src/routes/+page.server.ts'),
+      options: [svelteKitOptions],
+    },
+    // $lib/server modules may import each other
+    {
+      code: `import { env } from '$env/dynamic/private';\nimport { db } from './db';\nexport const connect = () => db.connect(env.DATABASE_URL);`,
+      filename: fixturePath('kit/src/lib/server/connect.ts'),
+      options: [svelteKitOptions],
+    },
+    // A relative import named server outside $lib/server
+    {
+      code: `import { api } from './server/client';\nexport const load = () => api.get();`,
+      filename: fixturePath('kit/src/routes/+page.ts'),
+      options: [svelteKitOptions],
+    },
+    // With a custom kit.files.lib, src/lib/server is just a directory
+    {
+      code: `import { db } from './server/db';\nexport const value = db;`,
+      filename: fixturePath('kit-custom/src/lib/utils.ts'),
+      options: [{ ...svelteKitOptions, clientFilePatterns: ['**/src/**'], serverFilePatterns: [] }],
     },
   ],
 
   invalid: [
-    // require of serverExternalPackage at top level - BLOCKED
+    // Private static env in a universal load - BLOCKED
     {
-      code: `const pkg = require('my-native-pkg');`,
-      filename: '/app/src/routes/index.tsx',
-      options: [{ serverExternalPackages: ['my-native-pkg'] }],
-      errors: [{ messageId: 'serverOnlyRequire', suggestions: requireSuggestions }],
+      code: `import { API_SECRET } from '$env/static/private';\nexport const load = () => ({ secret: API_SECRET });`,
+      filename: fixturePath('kit/src/routes/+page.ts'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Private dynamic env - BLOCKED
+    {
+      code: `import { env } from '$env/dynamic/private';\nexport const key = env.API_KEY;`,
+      filename: fixturePath('kit/src/lib/config.ts'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // $lib/server from a route - BLOCKED
+    {
+      code: `import { db } from '$lib/server/db';\nexport const load = () => db.query();`,
+      filename: fixturePath('kit/src/routes/+page.ts'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // $app/server from shared $lib code - BLOCKED
+    {
+      code: `import { read } from '$app/server';\nexport const asset = (file) => read(file);`,
+      filename: fixturePath('kit/src/lib/assets.ts'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Relative import into lib/server from $lib code - BLOCKED
+    {
+      code: `import { db } from './server/db';\nexport const users = () => db.users();`,
+      filename: fixturePath('kit/src/lib/users.ts'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Relative import into lib/server from a route - BLOCKED
+    {
+      code: `import { db } from '../../lib/server';\nexport const load = () => db.users();`,
+      filename: fixturePath('kit/src/routes/users/+page.ts'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // kit.files.lib from svelte.config.js - BLOCKED
+    {
+      code: `import { db } from '../lib/server/db';\nexport const load = () => db.users();`,
+      filename: fixturePath('kit-custom/app/routes/+page.ts'),
+      options: [{ ...svelteKitOptions, clientFilePatterns: ['**/app/routes/**'] }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
     },
   ],
 });
 
-ruleTester.run(
-  'no-server-imports - directiveAware (Next.js App Router)',
-  plugin.rules['no-server-imports'],
-  {
-    valid: [
-      // Server Component (no 'use client') under components/ may import server modules
-      {
-        code: `import { PrismaClient } from '@prisma/client';`,
-        filename: '/app/src/components/user-list.tsx',
-        options: [{ directiveAware: true }],
-      },
-      // Server Component under app/ may import a server-only alias
-      {
-        code: `import { db } from '@/lib/db';`,
-        filename: '/app/src/app/dashboard/page.tsx',
-        options: [
-          { directiveAware: true, serverModules: ['@/lib/db'] },
-        ],
-      },
-      // Explicit serverComponentPatterns: server component there is skipped
-      {
-        code: `import pino from 'pino';`,
-        filename: '/app/src/features/report.tsx',
-        options: [
-          {
-            directiveAware: true,
-            serverComponentPatterns: ['**/features/**'],
-          },
-        ],
-      },
-      // Type-only imports remain safe even in a 'use client' file
-      {
-        code: `'use client';\nimport type { PrismaClient } from '@prisma/client';`,
-        filename: '/app/src/components/counter.tsx',
-        options: [{ directiveAware: true }],
-      },
-    ],
-    invalid: [
-      // 'use client' file under components/ importing a server module - BLOCKED
-      {
-        code: `'use client';\nimport { PrismaClient } from '@prisma/client';`,
-        filename: '/app/src/components/counter.tsx',
-        options: [{ directiveAware: true }],
-        // 'use client' files get no server-only marker suggestion (they conflict)
-        errors: [{ messageId: 'serverOnlyImport', suggestions: 0 }],
-      },
-      // 'use client' file OUTSIDE clientFilePatterns is still checked (directive wins)
-      {
-        code: `'use client';\nimport pino from 'pino';`,
-        filename: '/app/src/lib/use-logger.ts',
-        options: [{ directiveAware: true }],
-        errors: [{ messageId: 'serverOnlyImport', suggestions: 0 }],
-      },
-      // Sanity: without directiveAware the same server component IS flagged
-      {
-        code: `import { PrismaClient } from '@prisma/client';`,
-        filename: '/app/src/components/user-list.tsx',
-        errors: [
-          { messageId: 'serverOnlyImport', suggestions: importSuggestions },
-        ],
-      },
-    ],
-  }
-);
+// Test Svelte components: module and instance scripts, and $app/environment guards
+const svelteRuleTester = new RuleTester({
+  languageOptions: {
+    parser: svelteParser,
+    parserOptions: {
+      parser,
+      ecmaVersion: 2022,
+      sourceType: 'module',
+    },
+  },
+});
+
+svelteRuleTester.run('no-server-imports - Svelte script blocks', plugin.rules['no-server-imports'], {
+  valid: [
+    // Public env in the instance script (Svelte 5)
+    {
+      code: "<script lang=\"ts\">\nimport { PUBLIC_API_URL } from '$env/static/public';\nlet { data } = $props();\n</script>\n<p>{PUBLIC_API_URL}</p>",
+      filename: fixturePath('kit/src/routes/+page.svelte'),
+      options: [svelteKitOptions],
+    },
+    // Server-only module loaded inside if (!browser) (Svelte 4 module script)
+    {
+      code: `<script context="module">\nimport { browser } from '$app/environment';\nexport let version = '';\nif (!browser) {\n  version = await import('node:fs').then((fs) => fs.readFileSync('VERSION', 'utf8'));\n}\n</script>`,
+      filename: fixturePath('kit/src/routes/about/+page.svelte'),
+      options: [svelteKitOptions],
+    },
+    // The else branch of if (browser) runs on the server (Svelte 5 module script)
+    {
+      code: `<script module>\nimport { browser } from '$app/environment';\nexport async function readVersion() {\n  if (browser) {\n    return window.name;\n  } else {\n    const fs = await import('node:fs');\n    return fs.readFileSync('VERSION', 'utf8');\n  }\n}\n</script>`,
+      filename: fixturePath('kit/src/routes/about/+page.svelte'),
+      options: [svelteKitOptions],
+    },
+    // building is only true while prerendering on the server, even when renamed
+    {
+      code: `<script lang="ts">\nimport { building as prerendering } from '$app/environment';\nlet key = '';\nif (prerendering) {\n  key = (await import('$env/dynamic/private')).env.BUILD_KEY;\n}\n</script>`,
+      filename: fixturePath('kit/src/routes/+layout.svelte'),
+      options: [svelteKitOptions],
+    },
+  ],
+
+  invalid: [
+    // Svelte 4 module script - BLOCKED, names the block
+    {
+      code: `<script context="module" lang="ts">\nimport { db } from '$lib/server/db';\nexport const count = db.count();\n</script>\n<script lang="ts">\nlet { name } = $props();\n</script>`,
+      filename: fixturePath('kit/src/routes/+page.svelte'),
+      options: [svelteKitOptions],
+      errors: [
+        {
+          messageId: 'svelteScriptServerImport',
+          data: { module: '$lib/server/db', block: '<script context="module">' },
+          line: 2,
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Svelte 5 module script - BLOCKED, names the block
+    {
+      code: `<script module>\nimport { API_SECRET } from '$env/static/private';\nexport const secret = API_SECRET;\n</script>`,
+      filename: fixturePath('kit/src/routes/+page.svelte'),
+      options: [svelteKitOptions],
+      errors: [
+        {
+          messageId: 'svelteScriptServerImport',
+          data: { module: '$env/static/private', block: '<script module>' },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Instance script alongside a Svelte 5 module script - BLOCKED, reports the instance block
+    {
+      code: `<script module>\nexport const prerender = true;\n</script>\n<script lang="ts">\nimport fs from 'node:fs';\nconst text = fs.readFileSync('x', 'utf8');\n</script>`,
+      filename: fixturePath('kit/src/routes/+page.svelte'),
+      options: [svelteKitOptions],
+      errors: [
+        {
+          messageId: 'svelteScriptServerImport',
+          data: { module: 'node:fs', block: '<script>' },
+          line: 5,
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // if (browser) runs in the client - BLOCKED
+    {
+      code: `<script>\nimport { browser } from '$app/environment';\nif (browser) {\n  import('node:fs');\n}\n</script>`,
+      filename: fixturePath('kit/src/routes/+page.svelte'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // A static import is bundled even when only if (!browser) uses it - BLOCKED
+    {
+      code: `<script>\nimport { browser } from '$app/environment';\nimport fs from 'node:fs';\nif (!browser) {\n  fs.readFileSync('x');\n}\n</script>`,
+      filename: fixturePath('kit/src/routes/+page.svelte'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'svelteScriptServerImport', suggestions: importSuggestions }],
+    },
+    // A local browser flag is not a guard - BLOCKED
+    {
+      code: `<script>\nconst browser = typeof window !== 'undefined';\nif (!browser) {\n  import('node:fs');\n}\n</script>`,
+      filename: fixturePath('kit/src/routes/+page.svelte'),
+      options: [svelteKitOptions],
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+  ],
+});
+
+// Test Remix / React Router v7 conventions using the preset's options
+const reactRouterOptions = {
+  ...plugin.configs['recommended-react-router'].rules['no-server-imports/no-server-imports'][1],
+};
+
+ruleTester.run('no-server-imports - React Router and Remix', plugin.rules['no-server-imports'], {
+  valid: [
+    // loader and action exports run on the server
+    {
+      code: `import { db } from '~/db.server';\nimport fs from 'node:fs';\nexport async function loader() { return db.users.findMany(); }\nexport const action = async ({ request }) => { fs.writeFileSync('log', await request.text()); return null; };\nexport default function Users() { return null; }`,
+      filename: '/app/app/routes/users.tsx',
+      options: [reactRouterOptions],
+    },
+    // headers export runs on the server
+    {
+      code: `import { cacheControl } from './cache.server';\nexport function headers() { return { 'Cache-Control': cacheControl() }; }`,
+      filename: '/app/app/routes/index.tsx',
+      options: [reactRouterOptions],
+    },
+    // Module inside a .server/ directory used only by the loader
+    {
+      code: `import { env } from '~/.server/env';\nexport const loader = () => ({ apiUrl: env.API_URL });`,
+      filename: '/app/app/routes/settings.tsx',
+      options: [reactRouterOptions],
+    },
+    // Type-only import of a .server module
+    {
+      code: `import type { User } from '~/models/user.server';\nexport default function Profile({ user }: { user: User }) { return user.name; }`,
+      filename: '/app/app/routes/profile.tsx',
+      options: [reactRouterOptions],
+    },
+    // *.server.ts files and .server/ directories are skipped
+    {
+      code: `import { Pool } from 'pg';\nexport const db = new Pool();`,
+      filename: '/app/app/db.server.ts',
+      options: [reactRouterOptions],
+    },
+    {
+      code: `import fs from 'node:fs';\nexport const env = JSON.parse(fs.readFileSync('.env.json', 'utf8'));`,
+      filename: '/app/app/.server/env.ts',
+      options: [reactRouterOptions],
+    },
+    // Without dotServerModules, *.server imports are treated like any local import
+    {
+      code: `import { db } from '~/db.server';\nexport default function Users() { return db.name; }`,
+      filename: '/app/app/routes/users.tsx',
+    },
+  ],
+
+  invalid: [
+    // .server module used in component code - BLOCKED
+    {
+      code: `import { db } from '~/db.server';\nexport async function loader() { return db.users.findMany(); }\nexport default function Users() { return db.name; }`,
+      filename: '/app/app/routes/users.tsx',
+      options: [reactRouterOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // clientLoader runs in the browser - BLOCKED
+    {
+      code: `import { db } from '../db.server.ts';\nexport async function clientLoader() { return db.users.findMany(); }`,
+      filename: '/app/app/routes/users.tsx',
+      options: [reactRouterOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // clientAction runs in the browser - BLOCKED
+    {
+      code: `import fs from 'node:fs';\nexport const clientAction = async () => fs.readFileSync('x');`,
+      filename: '/app/app/routes/upload.tsx',
+      options: [reactRouterOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // .server/ directory imported from a component - BLOCKED
+    {
+      code: `import { env } from '../.server/env';\nexport function Banner() { return env.MESSAGE; }`,
+      filename: '/app/app/components/banner.tsx',
+      options: [reactRouterOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Side-effect import of a .server module - BLOCKED
+    {
+      code: `import './polyfills.server';`,
+      filename: '/app/app/root.tsx',
+      options: [reactRouterOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test SolidStart conventions using the preset's options
+const solidStartOptions = {
+  ...plugin.configs['recommended-solid-start'].rules['no-server-imports/no-server-imports'][1],
+};
+
+ruleTester.run('no-server-imports - SolidStart', plugin.rules['no-server-imports'], {
+  valid: [
+    // query() from @solidjs/router with a "use server" function
+    {
+      code: `import { query } from '@solidjs/router';\nimport { Pool } from 'pg';\nexport const getUsers = query(async () => {\n  'use server';\n  return new Pool().query('SELECT * FROM users');\n}, 'users');`,
+      filename: '/app/src/routes/users.tsx',
+      options: [solidStartOptions],
+    },
+    // action() from @solidjs/router with a "use server" function
+    {
+      code: `import { action } from '@solidjs/router';\nimport fs from 'node:fs';\nexport const save = action(async (form: FormData) => {\n  'use server';\n  fs.writeFileSync('out', String(form.get('text')));\n});`,
+      filename: '/app/src/routes/editor.tsx',
+      options: [solidStartOptions],
+    },
+    // Standalone "use server" function
+    {
+      code: `import { Pool } from 'pg';\nasync function countUsers() {\n  'use server';\n  return new Pool().query('SELECT count(*) FROM users');\n}\nexport default function Page() { return <button onClick={() => countUsers()}>Count</button>; }`,
+      filename: '/app/src/routes/index.tsx',
+      options: [solidStartOptions],
+      languageOptions: { parserOptions: { ecmaFeatures: { jsx: true } } },
+    },
+    // API routes are server files
+    {
+      code: `import { Pool } from 'pg';\nexport async function GET() { return Response.json(await new Pool().query('SELECT 1')); }`,
+      filename: '/app/src/routes/api/users.ts',
+      options: [solidStartOptions],
+    },
+  ],
+
+  invalid: [
+    // query imported from somewhere else - BLOCKED
+    {
+      code: `import { query } from './my-query';\nimport { Pool } from 'pg';\nexport const getUsers = query(async () => new Pool().query('SELECT 1'), 'users');`,
+      filename: '/app/src/routes/users.tsx',
+      options: [solidStartOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // query() without "use server" runs in the browser - BLOCKED
+    {
+      code: `import { query } from '@solidjs/router';\nimport { Pool } from 'pg';\nexport const getUsers = query(async () => new Pool().query('SELECT 1'), 'users');`,
+      filename: '/app/src/routes/users.tsx',
+      options: [solidStartOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // action() without "use server" runs in the browser - BLOCKED
+    {
+      code: `import { action } from '@solidjs/router';\nimport fs from 'node:fs';\nexport const save = action(async (form: FormData) => {\n  fs.writeFileSync('out', String(form.get('text')));\n});`,
+      filename: '/app/src/routes/editor.tsx',
+      options: [solidStartOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Server-only module used in component code - BLOCKED
+    {
+      code: `import { createAsync } from '@solidjs/router';\nimport fs from 'node:fs';\nexport default function Page() { const data = createAsync(async () => fs.readFileSync('x')); return data; }`,
+      filename: '/app/src/routes/index.tsx',
+      options: [solidStartOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test Qwik City conventions using the preset's options
+const qwikOptions = {
+  ...plugin.configs['recommended-qwik'].rules['no-server-imports/no-server-imports'][1],
+};
+
+ruleTester.run('no-server-imports - Qwik City', plugin.rules['no-server-imports'], {
+  valid: [
+    // routeLoader$ and routeAction$ from @builder.io/qwik-city
+    {
+      code: `import { routeLoader$, routeAction$ } from '@builder.io/qwik-city';\nimport { Pool } from 'pg';\nexport const useUsers = routeLoader$(async () => new Pool().query('SELECT 1'));\nexport const useAddUser = routeAction$(async (data) => new Pool().query('INSERT', [data.name]));`,
+      filename: '/app/src/routes/users/index.tsx',
+      options: [qwikOptions],
+    },
+    // globalAction$ and server$
+    {
+      code: `import { globalAction$, server$ } from '@builder.io/qwik-city';\nimport fs from 'node:fs';\nexport const useLog = globalAction$(async (data) => { fs.appendFileSync('log', data.msg); });\nexport const readVersion = server$(() => fs.readFileSync('VERSION', 'utf8'));`,
+      filename: '/app/src/components/footer.tsx',
+      options: [qwikOptions],
+    },
+    // Renamed import
+    {
+      code: `import { routeLoader$ as loader } from '@builder.io/qwik-city';\nimport fs from 'node:fs';\nexport const useConfig = loader(() => JSON.parse(fs.readFileSync('config.json', 'utf8')));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [qwikOptions],
+    },
+    // onGet / onPost request handler exports
+    {
+      code: `import type { RequestHandler } from '@builder.io/qwik-city';\nimport { Pool } from 'pg';\nexport const onGet: RequestHandler = async ({ json }) => { json(200, await new Pool().query('SELECT 1')); };\nexport async function onPost({ json }) { json(201, await new Pool().query('INSERT')); }`,
+      filename: '/app/src/routes/users/index.tsx',
+      options: [qwikOptions],
+    },
+  ],
+
+  invalid: [
+    // server$ not imported from @builder.io/qwik-city - BLOCKED
+    {
+      code: `import { server$ } from './helpers';\nimport fs from 'node:fs';\nexport const readVersion = server$(() => fs.readFileSync('VERSION', 'utf8'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [qwikOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Used in component code outside the loader - BLOCKED
+    {
+      code: `import { component$ } from '@builder.io/qwik';\nimport { routeLoader$ } from '@builder.io/qwik-city';\nimport fs from 'node:fs';\nexport const useVersion = routeLoader$(() => fs.readFileSync('VERSION', 'utf8'));\nexport default component$(() => fs.existsSync('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [qwikOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Exported function that isn't a request handler - BLOCKED
+    {
+      code: `import fs from 'node:fs';\nexport const onClick = () => fs.readFileSync('x');`,
+      filename: '/app/src/routes/index.tsx',
+      options: [qwikOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test Astro-aware checking: frontmatter, client scripts and hydrated islands
+const astroRuleTester = new RuleTester({
+  languageOptions: {
+    parser: astroParser,
+    parserOptions: {
+      parser,
+      ecmaVersion: 2022,
+      sourceType: 'module',
+    },
+  },
+});
+
+writeFixture('astro/src/components/Counter.tsx', `import { useState } from 'react';\nexport default function Counter() { return useState(0)[0]; }\n`);
+writeFixture('astro/src/components/Logger.tsx', `import pino from 'pino';\nexport default function Logger() { pino().info('x'); return null; }\n`);
+writeFixture('astro/src/components/TypedLogger.tsx', `import type { Logger } from 'pino';\nexport default function TypedLogger(props: { logger?: Logger }) { return null; }\n`);
+writeFixture('astro/src/components/Files.svelte', "<script lang=\"ts\">\n  import fs from 'node:fs';\n  const files = fs.readdirSync('.');\n</script>\n<ul>{#each files as f}<li>{f}</li>{/each}</ul>\n");
+writeFixture('astro/src/components/Users.tsx', `import { listUsers } from '../lib/users';\nexport default function Users() { return listUsers(); }\n`);
+writeFixture('astro/src/lib/users.ts', `import { Pool } from 'pg';\nexport const listUsers = () => new Pool().query('SELECT 1');\n`);
+const astroPage = fixturePath('astro/src/pages/index.astro');
+
+astroRuleTester.run('no-server-imports - astroAware', plugin.rules['no-server-imports'], {
+  valid: [
+    // Frontmatter runs on the server
+    {
+      code: "---\nimport fs from 'node:fs';\nimport pino from 'pino';\nconst data = fs.readFileSync('package.json', 'utf8');\npino().info(data);\n---\n<p>{data.length}</p>",
+      filename: astroPage,
+      options: [{ astroAware: true }],
+    },
+    // Island without server-only imports
+    {
+      code: `---\nimport Counter from '../components/Counter.tsx';\n---\n<Counter client:load />`,
+      filename: astroPage,
+      options: [{ astroAware: true }],
+    },
+    // Server-rendered component (no client:* directive) may import server-only code
+    {
+      code: `---\nimport Logger from '../components/Logger.tsx';\n---\n<Logger />`,
+      filename: astroPage,
+      options: [{ astroAware: true }],
+    },
+    // Island with a type-only server import
+    {
+      code: `---\nimport TypedLogger from '../components/TypedLogger.tsx';\n---\n<TypedLogger client:visible />`,
+      filename: astroPage,
+      options: [{ astroAware: true }],
+    },
+    // Transitive server imports are only followed with followLocalImports
+    {
+      code: `---\nimport Users from '../components/Users.tsx';\n---\n<Users client:load />`,
+      filename: astroPage,
+      options: [{ astroAware: true }],
+    },
+  ],
+
+  invalid: [
+    // Without astroAware, frontmatter is checked like any client file - BLOCKED
+    {
+      code: "---\nimport fs from 'node:fs';\nconst data = fs.readFileSync('package.json', 'utf8');\n---\n<p>{data.length}</p>",
+      filename: astroPage,
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Hydrated island importing pino - BLOCKED
+    {
+      code: `---\nimport Logger from '../components/Logger.tsx';\n---\n<div><Logger client:load /></div>`,
+      filename: astroPage,
+      options: [{ astroAware: true }],
+      errors: [
+        {
+          messageId: 'hydratedIslandServerImport',
+          data: {
+            component: 'Logger',
+            directive: 'client:load',
+            chain: '../components/Logger.tsx → pino',
+          },
+        },
+      ],
+    },
+    // client:only Svelte island - BLOCKED
+    {
+      code: `---\nimport Files from '../components/Files.svelte';\n---\n<Files client:only="svelte" />`,
+      filename: astroPage,
+      options: [{ astroAware: true }],
+      errors: [
+        {
+          messageId: 'hydratedIslandServerImport',
+          data: {
+            component: 'Files',
+            directive: 'client:only',
+            chain: '../components/Files.svelte → node:fs',
+          },
+        },
+      ],
+    },
+    // Transitive server import with followLocalImports - BLOCKED
+    {
+      code: `---\nimport Users from '../components/Users.tsx';\n---\n<Users client:visible />`,
+      filename: astroPage,
+      options: [{ astroAware: true, followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'hydratedIslandServerImport',
+          data: {
+            component: 'Users',
+            directive: 'client:visible',
+            chain: '../components/Users.tsx → ../lib/users → pg',
+          },
+        },
+      ],
+    },
+  ],
+});
+
+// Client <script> blocks, as extracted by eslint-plugin-astro's processor
+ruleTester.run('no-server-imports - astroAware client scripts', plugin.rules['no-server-imports'], {
+  valid: [
+    {
+      code: `import confetti from 'canvas-confetti';\nconfetti();`,
+      filename: '/app/src/layouts/Base.astro/0_0.ts',
+      options: [{ astroAware: true }],
+    },
+    // Without astroAware, virtual script files follow clientFilePatterns
+    {
+      code: `import pino from 'pino';\npino();`,
+      filename: '/app/src/layouts/Base.astro/0_0.ts',
+    },
+  ],
+
+  invalid: [
+    // Checked even outside clientFilePatterns - BLOCKED
+    {
+      code: `import pino from 'pino';\npino().info('x');`,
+      filename: '/app/src/layouts/Base.astro/0_0.ts',
+      options: [{ astroAware: true }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    {
+      code: `import fs from 'node:fs';\nfs.readFileSync('x');`,
+      filename: '/app/src/pages/index.astro/1_1.ts',
+      options: [{ astroAware: true }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test Nuxt conventions and Vue single-file components
+const vueRuleTester = new RuleTester({
+  languageOptions: {
+    parser: vueParser,
+    parserOptions: {
+      parser,
+      ecmaVersion: 2022,
+      sourceType: 'module',
+    },
+  },
+});
+
+const nuxtOptions = {
+  ...plugin.configs['recommended-nuxt'].rules['no-server-imports/no-server-imports'][1],
+};
+
+vueRuleTester.run('no-server-imports - Nuxt Vue SFC', plugin.rules['no-server-imports'], {
+  valid: [
+    // Client-safe imports in <script setup>
+    {
+      code: `<script setup lang="ts">\nimport { ref } from 'vue';\nconst count = ref(0);\n</script>\n<template><button @click="count++">{{ count }}</button></template>`,
+      filename: '/app/components/Counter.vue',
+      options: [nuxtOptions],
+    },
+    // Type-only import in <script setup>
+    {
+      code: `<script setup lang="ts">\nimport type { Logger } from 'pino';\ndefineProps<{ logger?: Logger }>();\n</script>`,
+      filename: '/app/components/Log.vue',
+      options: [nuxtOptions],
+    },
+    // Server-only module loaded inside if (import.meta.server)
+    {
+      code: `<script setup lang="ts">\nlet version = '';\nif (import.meta.server) {\n  const fs = await import('node:fs');\n  version = fs.readFileSync('VERSION', 'utf8');\n}\n</script>`,
+      filename: '/app/pages/about.vue',
+      options: [nuxtOptions],
+    },
+    // The else branch of a negated import.meta.server runs during SSR
+    {
+      code: `<script setup lang="ts">\nlet version = '';\nif (!import.meta.server) {\n  version = 'client';\n} else {\n  const fs = await import('node:fs');\n  version = fs.readFileSync('VERSION', 'utf8');\n}\n</script>`,
+      filename: '/app/pages/about.vue',
+      options: [nuxtOptions],
+    },
+    // defineEventHandler callbacks run on the server
+    {
+      code: `<script lang="ts">\nimport { Pool } from 'pg';\nexport const handler = defineEventHandler(() => new Pool().query('SELECT 1'));\n</script>`,
+      filename: '/app/pages/status.vue',
+      options: [nuxtOptions],
+    },
+    // Server components (*.server.vue) are skipped
+    {
+      code: `<script setup lang="ts">\nimport { Pool } from 'pg';\nconst { rows } = await new Pool().query('SELECT 1');\n</script>\n<template><div>{{ rows.length }}</div></template>`,
+      filename: '/app/components/Stats.server.vue',
+      options: [nuxtOptions],
+    },
+  ],
+
+  invalid: [
+    // Server-only module in <script setup> - BLOCKED
+    {
+      code: `<script setup lang="ts">\nimport { Pool } from 'pg';\nconst pool = new Pool();\n</script>\n<template><div /></template>`,
+      filename: '/app/components/Users.vue',
+      options: [nuxtOptions],
+      errors: [{ messageId: 'serverOnlyImport', line: 2, suggestions: importSuggestions }],
+    },
+    // Server-only module in a plain <script> block - BLOCKED
+    {
+      code: `<script>\nimport fs from 'fs';\nexport default { data: () => ({ text: fs.readFileSync('x') }) };\n</script>`,
+      filename: '/app/pages/index.vue',
+      options: [nuxtOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Used outside the import.meta.server block too - BLOCKED
+    {
+      code: `<script setup lang="ts">\nimport fs from 'node:fs';\nif (import.meta.server) {\n  fs.readFileSync('a');\n}\nfs.existsSync('b');\n</script>`,
+      filename: '/app/pages/about.vue',
+      options: [nuxtOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // The else branch of import.meta.server runs in the browser - BLOCKED
+    {
+      code: `<script setup lang="ts">\nif (import.meta.server) {\n  console.log('ssr');\n} else {\n  await import('node:fs');\n}\n</script>`,
+      filename: '/app/pages/about.vue',
+      options: [nuxtOptions],
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // A static import is bundled even when only if (import.meta.server) uses it - BLOCKED
+    {
+      code: `<script setup lang="ts">\nimport fs from 'node:fs';\nlet version = '';\nif (import.meta.server) {\n  version = fs.readFileSync('VERSION', 'utf8');\n}\n</script>`,
+      filename: '/app/pages/about.vue',
+      options: [nuxtOptions],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test environment guards: import() and require() calls in branches that only
+// run during SSR are allowed; static imports are bundled whichever branch uses them
+ruleTester.run('no-server-imports - environment guards', plugin.rules['no-server-imports'], {
+  valid: [
+    // Dynamic import behind import.meta.env.SSR
+    {
+      code: `export async function loadVersion() {\n  if (import.meta.env.SSR) {\n    const { readFile } = await import('node:fs/promises');\n    return readFile('VERSION', 'utf8');\n  }\n  return null;\n}`,
+      filename: '/src/routes/version.ts',
+    },
+    // require() behind typeof window === 'undefined'
+    {
+      code: `export function readConfig() {\n  if (typeof window === 'undefined') {\n    const fs = require('node:fs');\n    return fs.readFileSync('config.json', 'utf8');\n  }\n}`,
+      filename: '/src/components/config.ts',
+    },
+    // The else branch of a negated guard runs on the server
+    {
+      code: `export async function readConfig() {\n  if (typeof window !== 'undefined') {\n    return localStorage.getItem('config');\n  } else {\n    const fs = await import('node:fs');\n    return fs.readFileSync('config.json', 'utf8');\n  }\n}`,
+      filename: '/src/components/config.ts',
+    },
+    // Reversed comparison with document
+    {
+      code: `if ('undefined' == typeof document) {\n  require('node:fs').existsSync('x');\n}`,
+      filename: '/src/components/config.ts',
+    },
+    // !import.meta.client and ternaries
+    {
+      code: `export const text = !import.meta.client ? require('node:fs').readFileSync('x', 'utf8') : '';`,
+      filename: '/src/components/text.ts',
+    },
+    // Custom guards, including a browser-only flag
+    {
+      code: `import { isServer, isBrowser } from './env';\nif (isServer) {\n  import('node:fs');\n}\nif (!isBrowser) {\n  require('node:fs');\n}`,
+      filename: '/src/components/env-check.ts',
+      options: [{ serverGuards: ['isServer', '!isBrowser'] }],
+    },
+    // Custom typeof guard written with double quotes and !==
+    {
+      code: `if (typeof Deno !== 'object') {\n  import('node:fs');\n}`,
+      filename: '/src/components/env-check.ts',
+      options: [{ serverGuards: ['!typeof Deno === "object"'] }],
+    },
+    // Guards don't depend on checkServerFunctions
+    {
+      code: `if (import.meta.env.SSR) {\n  import('node:fs');\n}`,
+      filename: '/src/components/env-check.ts',
+      options: [{ checkServerFunctions: false }],
+    },
+  ],
+
+  invalid: [
+    // A static import used only inside a guard is still bundled - BLOCKED
+    {
+      code: `import { Pool } from 'pg';\nexport function query() {\n  if (typeof window === 'undefined') {\n    return new Pool().query('SELECT 1');\n  }\n}`,
+      filename: '/src/components/users.ts',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    {
+      code: `import fs from 'node:fs';\nexport const text = import.meta.env.SSR ? fs.readFileSync('x', 'utf8') : '';`,
+      filename: '/src/components/text.ts',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // A top-level require() used only inside a guard - BLOCKED
+    {
+      code: `const fs = require('node:fs');\nif (import.meta.env.SSR) {\n  fs.existsSync('x');\n}`,
+      filename: '/src/components/config.ts',
+      errors: [{ messageId: 'serverOnlyRequire', suggestions: requireSuggestions }],
+    },
+    // A negated guard's consequent runs in the browser - BLOCKED
+    {
+      code: `if (typeof window !== 'undefined') {\n  require('node:fs');\n}`,
+      filename: '/src/components/config.ts',
+      errors: [{ messageId: 'serverOnlyRequire', suggestions: requireSuggestions }],
+    },
+    // The else branch of an SSR guard runs in the browser - BLOCKED
+    {
+      code: `if (import.meta.env.SSR) {\n  console.log('ssr');\n} else {\n  import('node:fs');\n}`,
+      filename: '/src/components/config.ts',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // !import.meta.env.SSR - BLOCKED
+    {
+      code: `export async function load() {\n  if (!import.meta.env.SSR) {\n    await import('node:fs/promises');\n  }\n}`,
+      filename: '/src/routes/version.ts',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    // The alternate of an SSR ternary - BLOCKED
+    {
+      code: `export const text = import.meta.env.SSR ? '' : require('node:fs').readFileSync('x', 'utf8');`,
+      filename: '/src/components/text.ts',
+      errors: [{ messageId: 'serverOnlyRequire', suggestions: requireSuggestions }],
+    },
+    // Unconfigured flags and other typeof checks are not guards - BLOCKED
+    {
+      code: `import { isServer } from './env';\nif (isServer || typeof window === 'object') {\n  import('node:fs');\n}`,
+      filename: '/src/components/env-check.ts',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+    {
+      code: `if (typeof window === 'object') {\n  import('node:fs');\n}`,
+      filename: '/src/components/env-check.ts',
+      errors: [{ messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions }],
+    },
+  ],
+});
+
+// Test Node.js globals referenced without an import
+ruleTester.run('no-server-imports - Node.js globals', plugin.rules['no-server-imports'], {
+  valid: [
+    // Local bindings shadow the globals
+    {
+      code: `import { Buffer } from 'buffer';\nconst global = window;\nexport const encoded = Buffer.from('hi').toString('base64') + global.name;`,
+      filename: '/src/components/encode.ts',
+      options: [{ browserSafeBuiltins: ['buffer'] }],
+    },
+    // Type annotations are not references
+    {
+      code: `export const toBase64 = (bytes: Buffer) => btoa(String(bytes));`,
+      filename: '/src/components/base64.ts',
+    },
+    // Bundler-replaced process.env and typeof checks
+    {
+      code: `export const isDev = process.env.NODE_ENV !== 'production';\nexport const hasBuffer = typeof Buffer !== 'undefined';`,
+      filename: '/src/components/env.ts',
+    },
+    // Inside server scopes
+    {
+      code: `export const getRoot = createServerFn().handler(() => process.cwd());\nif (typeof window === 'undefined') {\n  console.log(__dirname);\n}`,
+      filename: '/src/routes/root.ts',
+    },
+    // Server files are not checked
+    {
+      code: `export const root = process.cwd();`,
+      filename: '/src/server/paths.ts',
+    },
+    // Allowlisted polyfills
+    {
+      code: `export const bytes = Buffer.from('hi');\nsetImmediate(() => {});\nexport const cwd = process.cwd();`,
+      filename: '/src/components/polyfilled.ts',
+      options: [{ allowedNodeGlobals: ['Buffer', 'setImmediate', 'process.cwd'] }],
+    },
+    // Files marked server-only are skipped
+    {
+      code: `import 'server-only';\nexport const root = __dirname;`,
+      filename: '/src/components/root.ts',
+    },
+  ],
+
+  invalid: [
+    // Buffer, __dirname and setImmediate - BLOCKED
+    {
+      code: `export const bytes = Buffer.from('hi');\nexport const dir = __dirname;\nsetImmediate(() => {});`,
+      filename: '/src/components/node.ts',
+      errors: [
+        { messageId: 'nodeGlobalInClient', data: { name: 'Buffer' }, suggestions: importSuggestions },
+        { messageId: 'nodeGlobalInClient', data: { name: '__dirname' }, suggestions: importSuggestions },
+        { messageId: 'nodeGlobalInClient', data: { name: 'setImmediate' }, suggestions: importSuggestions },
+      ],
+    },
+    // process.cwd() and require.resolve - BLOCKED
+    {
+      code: `export const root = process.cwd();\nexport const entry = require.resolve('./entry');`,
+      filename: '/src/components/paths.ts',
+      errors: [
+        { messageId: 'nodeGlobalInClient', data: { name: 'process.cwd' }, suggestions: importSuggestions },
+        { messageId: 'nodeGlobalInClient', data: { name: 'require.resolve' }, suggestions: importSuggestions },
+      ],
+    },
+    // global - BLOCKED
+    {
+      code: `global.cache = new Map();`,
+      filename: '/src/components/cache.ts',
+      errors: [{ messageId: 'nodeGlobalInClient', data: { name: 'global' }, suggestions: importSuggestions }],
+    },
+    // Globals declared through languageOptions.globals are still Node globals - BLOCKED
+    {
+      code: `export const bytes = Buffer.alloc(8);`,
+      filename: '/src/components/alloc.ts',
+      languageOptions: { globals: { Buffer: 'readonly' } },
+      errors: [{ messageId: 'nodeGlobalInClient', data: { name: 'Buffer' }, suggestions: importSuggestions }],
+    },
+    // The client branch of createIsomorphicFn - BLOCKED
+    {
+      code: `export const getDir = createIsomorphicFn()\n  .server(() => __dirname)\n  .client(() => __dirname);`,
+      filename: '/src/routes/dir.ts',
+      errors: [{ messageId: 'nodeGlobalInClient', line: 3, suggestions: importSuggestions }],
+    },
+    // Allowlisting Buffer doesn't allow other globals - BLOCKED
+    {
+      code: `'use client';\nexport const bytes = Buffer.from(__filename);`,
+      filename: '/src/components/file.ts',
+      options: [{ allowedNodeGlobals: ['Buffer'] }],
+      errors: [{ messageId: 'nodeGlobalInClient', data: { name: '__filename' }, suggestions: 0 }],
+    },
+  ],
+});
+
+// Test Node.js built-ins matched from builtinModules
+ruleTester.run('no-server-imports - Node.js built-ins', plugin.rules['no-server-imports'], {
+  valid: [
+    // Polyfilled built-ins, with or without the node: prefix
+    {
+      code: `import { EventEmitter } from 'node:events';\nimport { inspect } from 'util';\nexport const bus = new EventEmitter();\nexport const show = inspect;`,
+      filename: '/src/components/bus.ts',
+      options: [{ browserSafeBuiltins: ['events', 'node:util'] }],
+    },
+    // Subpaths of polyfilled built-ins
+    {
+      code: `import { isDate } from 'util/types';\nexport const check = isDate;`,
+      filename: '/src/components/types.ts',
+      options: [{ browserSafeBuiltins: ['util'] }],
+    },
+    // The built-ins category can be turned off
+    {
+      code: `import http from 'node:http';\nexport const agent = new http.Agent();`,
+      filename: '/src/components/agent.ts',
+      options: [{ checkNodeBuiltins: false }],
+    },
+    // npm packages that share a prefix-only built-in's name are not built-ins
+    {
+      code: `import { open } from 'sqlite';\nexport const db = open;`,
+      filename: '/src/components/db.ts',
+    },
+    // Server functions can import any built-in
+    {
+      code: `export const compress = createServerFn().handler(async () => {\n  const { gzipSync } = await import('node:zlib');\n  return gzipSync('x');\n});`,
+      filename: '/src/routes/compress.ts',
+    },
+  ],
+
+  invalid: [
+    // Built-ins missing from the old hand-written list - BLOCKED
+    {
+      code: `import http from 'http';\nimport https from 'node:https';\nimport { pipeline } from 'stream';\nimport zlib from 'zlib';\nexport const mods = [http, https, pipeline, zlib];`,
+      filename: '/src/components/net.ts',
+      errors: [
+        { messageId: 'serverOnlyImport', data: { module: 'http' }, suggestions: importSuggestions },
+        { messageId: 'serverOnlyImport', data: { module: 'node:https' }, suggestions: importSuggestions },
+        { messageId: 'serverOnlyImport', data: { module: 'stream' }, suggestions: importSuggestions },
+        { messageId: 'serverOnlyImport', data: { module: 'zlib' }, suggestions: importSuggestions },
+      ],
+    },
+    // Prefix-only built-ins - BLOCKED
+    {
+      code: `import { DatabaseSync } from 'node:sqlite';\nimport { test } from 'node:test';\nexport const db = new DatabaseSync(':memory:');\nexport const t = test;`,
+      filename: '/src/components/sqlite.ts',
+      errors: [
+        { messageId: 'serverOnlyImport', data: { module: 'node:sqlite' }, suggestions: importSuggestions },
+        { messageId: 'serverOnlyImport', data: { module: 'node:test' }, suggestions: importSuggestions },
+      ],
+    },
+    // Built-in subpaths, require() and dynamic import() - BLOCKED
+    {
+      code: `import { createInterface } from 'node:readline/promises';\nconst vm = require('vm');\nexport const load = () => import('node:v8');\nexport const run = [createInterface, vm];`,
+      filename: '/src/components/repl.ts',
+      errors: [
+        { messageId: 'serverOnlyImport', suggestions: importSuggestions },
+        { messageId: 'serverOnlyRequire', suggestions: requireSuggestions },
+        { messageId: 'serverOnlyDynamicImport', suggestions: dynamicImportSuggestions },
+      ],
+    },
+    // browserSafeBuiltins only allows the listed built-ins - BLOCKED
+    {
+      code: `import { EventEmitter } from 'events';\nimport { AsyncLocalStorage } from 'node:async_hooks';\nexport const bus = new EventEmitter();\nexport const storage = new AsyncLocalStorage();`,
+      filename: '/src/components/storage.ts',
+      options: [{ browserSafeBuiltins: ['events'] }],
+      errors: [
+        { messageId: 'serverOnlyImport', data: { module: 'node:async_hooks' }, suggestions: importSuggestions },
+      ],
+    },
+    // Turning off built-ins keeps explicit serverModules entries - BLOCKED
+    {
+      code: `import fs from 'node:fs';\nexport const read = fs.readFileSync;`,
+      filename: '/src/components/read.ts',
+      options: [{ checkNodeBuiltins: false, serverModules: ['node:fs'] }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test files that combine client and server boundary markers
+ruleTester.run('no-server-imports - conflicting boundary markers', plugin.rules['no-server-imports'], {
+  valid: [
+    // server-only in a server file
+    {
+      code: `import 'server-only';\nimport pino from 'pino';\nexport const logger = pino();`,
+      filename: '/src/components/logger.ts',
+    },
+    // client-only in a client file
+    {
+      code: `'use client';\nimport 'client-only';\nexport const width = () => window.innerWidth;`,
+      filename: '/src/components/viewport.ts',
+    },
+    // client-only in a file that is neither client nor server code
+    {
+      code: `import 'client-only';\nexport const width = () => window.innerWidth;`,
+      filename: '/src/lib/viewport.ts',
+    },
+  ],
+
+  invalid: [
+    // 'use client' with server-only - BLOCKED, and violations are no longer hidden
+    {
+      code: `'use client';\nimport 'server-only';\nimport pino from 'pino';\nexport const logger = pino();`,
+      filename: '/src/components/logger.ts',
+      errors: [
+        {
+          messageId: 'conflictingBoundaryMarkers',
+          data: { clientMarker: "'use client'", serverMarker: "import 'server-only'" },
+          line: 2,
+        },
+        { messageId: 'serverOnlyImport', line: 3, suggestions: 0 },
+      ],
+    },
+    // Reported wherever the file lives
+    {
+      code: `'use client';\nimport 'server-only';\nexport const token = 'x';`,
+      filename: '/src/server/token.ts',
+      errors: [{ messageId: 'conflictingBoundaryMarkers' }],
+    },
+    // client-only in a server file - BLOCKED
+    {
+      code: `import 'client-only';\nexport const width = () => window.innerWidth;`,
+      filename: '/src/server/viewport.ts',
+      errors: [
+        {
+          messageId: 'conflictingBoundaryMarkers',
+          data: { clientMarker: "import 'client-only'", serverMarker: 'serverFilePatterns' },
+        },
+      ],
+    },
+    // client-only in a 'use server' module - BLOCKED
+    {
+      code: `'use server';\nimport 'client-only';\nexport async function save() {}`,
+      filename: '/src/app/actions.ts',
+      errors: [
+        {
+          messageId: 'conflictingBoundaryMarkers',
+          data: { clientMarker: "import 'client-only'", serverMarker: "'use server'" },
+        },
+      ],
+    },
+    // client-only and server-only together - BLOCKED
+    {
+      code: `import 'server-only';\nimport 'client-only';`,
+      filename: '/src/components/both.ts',
+      errors: [
+        {
+          messageId: 'conflictingBoundaryMarkers',
+          data: { clientMarker: "import 'client-only'", serverMarker: "import 'server-only'" },
+        },
+      ],
+    },
+    // Inline 'use server' function in a 'use client' file - BLOCKED, and its imports are still checked
+    {
+      code: `'use client';\nimport { Pool } from 'pg';\nexport function Form() {\n  async function save() {\n    'use server';\n    await new Pool().query('x');\n  }\n  return save;\n}`,
+      filename: '/src/components/form.tsx',
+      errors: [
+        { messageId: 'serverOnlyImport', line: 2, suggestions: 0 },
+        { messageId: 'inlineServerActionInClient', line: 5 },
+      ],
+    },
+    // client-only in a Server Component - BLOCKED
+    {
+      code: `import 'client-only';\nexport default function Page() {\n  return null;\n}`,
+      filename: '/src/app/page.tsx',
+      options: [{ directiveAware: true }],
+      errors: [
+        {
+          messageId: 'conflictingBoundaryMarkers',
+          data: { clientMarker: "import 'client-only'", serverMarker: 'serverComponentPatterns' },
+        },
+      ],
+    },
+  ],
+});
+
+// Test named handlers passed to server function chains
+ruleTester.run('no-server-imports - named server handlers', plugin.rules['no-server-imports'], {
+  valid: [
+    // Function declaration passed to .handler()
+    {
+      code: `import { Pool } from 'pg';\nasync function getUserHandler() {\n  return new Pool().query('SELECT 1');\n}\nexport const getUser = createServerFn().handler(getUserHandler);`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // const arrow function passed to .handler()
+    {
+      code: `import { Pool } from 'pg';\nconst getUserHandler = async () => new Pool().query('SELECT 1');\nexport const getUser = createServerFn().handler(getUserHandler);`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Handler declared after use and shared by two server functions
+    {
+      code: `import fs from 'fs';\nexport const a = createServerFn().handler(read);\nexport const b = createServerFn({ method: 'POST' }).handler(read);\nfunction read() { return fs.readFileSync('x'); }`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Recursive handler
+    {
+      code: `import fs from 'fs';\nfunction walk(dir) { return fs.readdirSync(dir).map((d) => walk(d)); }\nexport const list = createServerFn().handler(walk);`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // Handler passed directly to server$
+    {
+      code: `import pino from 'pino';\nconst log = (msg) => pino().info(msg);\nexport const serverLog = server$(log);`,
+      filename: '/app/src/routes/index.tsx',
+    },
+  ],
+
+  invalid: [
+    // Handler also called from component code - BLOCKED
+    {
+      code: `import { Pool } from 'pg';\nasync function getUserHandler() {\n  return new Pool().query('SELECT 1');\n}\nexport const getUser = createServerFn().handler(getUserHandler);\nexport function Page() { getUserHandler(); return null; }`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Handler exported from the module - BLOCKED
+    {
+      code: `import { Pool } from 'pg';\nexport async function getUserHandler() {\n  return new Pool().query('SELECT 1');\n}\nexport const getUser = createServerFn().handler(getUserHandler);`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Handler passed to createIsomorphicFn().client() - BLOCKED
+    {
+      code: `import fs from 'fs';\nconst read = () => fs.readFileSync('x');\nexport const fn = createIsomorphicFn().client(read);`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // let binding can be reassigned - BLOCKED
+    {
+      code: `import fs from 'fs';\nlet read = () => fs.readFileSync('x');\nexport const fn = createServerFn().handler(read);`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Handler stored in an object as well - BLOCKED
+    {
+      code: `import fs from 'fs';\nfunction read() { return fs.readFileSync('x'); }\nexport const fn = createServerFn().handler(read);\nexport const handlers = { read };`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test Next.js data functions that only run on the server
+ruleTester.run('no-server-imports - Next.js server exports', plugin.rules['no-server-imports'], {
+  valid: [
+    // getServerSideProps function declaration
+    {
+      code: `import { Pool } from 'pg';\nexport async function getServerSideProps() {\n  const { rows } = await new Pool().query('SELECT 1');\n  return { props: { rows } };\n}\nexport default function Page({ rows }) { return rows.length; }`,
+      filename: '/app/src/pages/users.tsx',
+    },
+    // getStaticProps and getStaticPaths as const arrow functions
+    {
+      code: `import fs from 'fs';\nexport const getStaticPaths = async () => ({ paths: fs.readdirSync('posts'), fallback: false });\nexport const getStaticProps = async () => ({ props: { post: fs.readFileSync('post.md', 'utf8') } });\nexport default function Post({ post }) { return post; }`,
+      filename: '/app/src/pages/posts/[slug].tsx',
+    },
+    // Local functions exported by name or under an alias
+    {
+      code: `import { Pool } from 'pg';\nasync function getServerSideProps() {\n  return { props: { rows: await new Pool().query('SELECT 1') } };\n}\nconst loadPaths = async () => ({ paths: await new Pool().query('SELECT id'), fallback: false });\nexport { getServerSideProps, loadPaths as getStaticPaths };\nexport default function Page({ rows }) { return rows.length; }`,
+      filename: '/app/src/pages/users.tsx',
+    },
+    // Server exports don't depend on checkServerFunctions
+    {
+      code: `import fs from 'fs';\nexport async function getServerSideProps() { return { props: { data: fs.readFileSync('x') } }; }`,
+      filename: '/app/src/pages/index.tsx',
+      options: [{ checkServerFunctions: false }],
+    },
+    // generateMetadata and generateStaticParams with directiveAware
+    {
+      code: `import { db } from '@/lib/db';\nexport async function generateMetadata({ params }) { return { title: (await db.post(params.id)).title }; }\nexport const generateStaticParams = async () => db.ids();\nexport default function Page() { return null; }`,
+      filename: '/app/src/app/posts/[id]/page.tsx',
+      options: [
+        {
+          directiveAware: true,
+          serverComponentPatterns: ['**/src/app/components/**'],
+          serverModules: ['@/lib/db'],
+        },
+      ],
+    },
+  ],
+
+  invalid: [
+    // Module also used in component code - BLOCKED
+    {
+      code: `import { Pool } from 'pg';\nexport async function getServerSideProps() {\n  return { props: { rows: await new Pool().query('SELECT 1') } };\n}\nexport default function Page() { return new Pool(); }`,
+      filename: '/app/src/pages/users.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // A local function exported under an ordinary name - BLOCKED
+    {
+      code: `import fs from 'fs';\nfunction getServerSideProps() { return { props: { data: fs.readFileSync('x') } }; }\nexport { getServerSideProps as getProps };`,
+      filename: '/app/src/pages/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Non-exported function with a data function name - BLOCKED
+    {
+      code: `import fs from 'fs';\nasync function getStaticProps() { return { props: { data: fs.readFileSync('x') } }; }\nexport default function Page() { return null; }`,
+      filename: '/app/src/pages/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // generateMetadata without directiveAware - BLOCKED
+    {
+      code: `import { db } from '@/lib/db';\nexport async function generateMetadata() { return { title: await db.title() }; }`,
+      filename: '/app/src/app/page.tsx',
+      options: [{ serverModules: ['@/lib/db'] }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test serverFunctionNames entries verified by their import source
+const tanstackServerFunctions = [
+  { name: 'createServerFn', from: '@tanstack/react-start' },
+  { name: 'createIsomorphicFn', from: '@tanstack/react-start' },
+];
+
+ruleTester.run('no-server-imports - sourced server function names', plugin.rules['no-server-imports'], {
+  valid: [
+    // Named import from the configured source
+    {
+      code: `import { createServerFn } from '@tanstack/react-start';\nimport pino from 'pino';\nconst fn = createServerFn().handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+    },
+    // Renamed import
+    {
+      code: `import { createServerFn as csf } from '@tanstack/react-start';\nimport pino from 'pino';\nconst fn = csf().handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+    },
+    // Namespace access
+    {
+      code: `import * as Start from '@tanstack/react-start';\nimport pino from 'pino';\nconst fn = Start.createServerFn().handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+    },
+    // Chain methods still apply through a renamed import
+    {
+      code: `import { createIsomorphicFn as iso } from '@tanstack/react-start';\nimport fs from 'fs';\nconst read = iso().server(() => fs.readFileSync('x')).client(() => null);`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+    },
+    // Bare names and sourced entries can be mixed
+    {
+      code: `import pino from 'pino';\nconst fn = server$(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: ['server$', ...tanstackServerFunctions] }],
+    },
+  ],
+
+  invalid: [
+    // Local helper with the same name - BLOCKED
+    {
+      code: `import pino from 'pino';\nconst createServerFn = () => ({ handler: (fn) => fn });\nconst fn = createServerFn().handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Same name imported from a different module - BLOCKED
+    {
+      code: `import { createServerFn } from './my-helpers';\nimport pino from 'pino';\nconst fn = createServerFn().handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Unrelated export renamed to a server function name - BLOCKED
+    {
+      code: `import { createClientOnlyFn as createServerFn } from '@tanstack/react-start';\nimport pino from 'pino';\nconst fn = createServerFn(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Namespace import from a different module - BLOCKED
+    {
+      code: `import * as Start from './start';\nimport pino from 'pino';\nconst fn = Start.createServerFn().handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Unimported global with a sourced name - BLOCKED
+    {
+      code: `import pino from 'pino';\nconst fn = createServerFn().handler(() => pino().info('x'));`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverFunctionNames: tanstackServerFunctions }],
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+ruleTester.run('no-server-imports - real world patterns', plugin.rules['no-server-imports'], {
+  valid: [
+    // Database query in server action (TanStack Start pattern)
+    {
+      code: `import { db } from '@prisma/client';\nconst getUsers = createServerFn().handler(async () => {\n  return db.user.findMany();\n});`,
+      filename: '/app/src/routes/users.tsx',
+      options: [{ serverModules: ['@prisma/client'] }],
+    },
+    // Correct pattern: create logger INSIDE server callback
+    {
+      code: `import pino from 'pino';\nexport const loader = loader$(async () => {\n  const logger = pino();\n  logger.info('Loading data');\n  return { data: 'test' };\n});`,
+      filename: '/app/src/routes/index.tsx',
+    },
+    // File system access in API route simulation
+    {
+      code: `import fs from 'fs';\nconst readConfig = createServerFn().handler(() => {\n  return JSON.parse(fs.readFileSync('config.json', 'utf-8'));\n});`,
+      filename: '/app/src/routes/config.tsx',
+    },
+  ],
+
+  invalid: [
+    // Accidental top-level logger initialization (common mistake!)
+    // pino() at top level is a client-side call
+    {
+      code: `import pino from 'pino';\nconst logger = pino();\nexport const loader = loader$(async () => {\n  logger.info('Loading data');\n});`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Accidental top-level usage (common mistake)
+    {
+      code: `import pino from 'pino';\nconst logger = pino(); // This runs on client!\nexport const getServerData = createServerFn().handler(() => {\n  logger.info('server');\n});`,
+      filename: '/app/src/routes/index.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+    // Importing for type but using value
+    {
+      code: `import { PrismaClient } from '@prisma/client';\nconst prisma = new PrismaClient();`,
+      filename: '/app/src/components/UserList.tsx',
+      errors: [{ messageId: 'serverOnlyImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Test require with serverExternalPackages
+ruleTester.run('no-server-imports - require with serverExternalPackages', plugin.rules['no-server-imports'], {
+  valid: [
+    // require of serverExternalPackage inside server callback - ALLOWED
+    {
+      code: `const fn = createServerFn().handler(() => { const pkg = require('my-native-pkg'); });`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverExternalPackages: ['my-native-pkg'] }],
+    },
+  ],
+
+  invalid: [
+    // require of serverExternalPackage at top level - BLOCKED
+    {
+      code: `const pkg = require('my-native-pkg');`,
+      filename: '/app/src/routes/index.tsx',
+      options: [{ serverExternalPackages: ['my-native-pkg'] }],
+      errors: [{ messageId: 'serverOnlyRequire', suggestions: requireSuggestions }],
+    },
+  ],
+});
+
+ruleTester.run(
+  'no-server-imports - directiveAware (Next.js App Router)',
+  plugin.rules['no-server-imports'],
+  {
+    valid: [
+      // Server Component (no 'use client') under components/ may import server modules
+      {
+        code: `import { PrismaClient } from '@prisma/client';`,
+        filename: '/app/src/components/user-list.tsx',
+        options: [{ directiveAware: true }],
+      },
+      // Server Component under app/ may import a server-only alias
+      {
+        code: `import { db } from '@/lib/db';`,
+        filename: '/app/src/app/dashboard/page.tsx',
+        options: [
+          { directiveAware: true, serverModules: ['@/lib/db'] },
+        ],
+      },
+      // Explicit serverComponentPatterns: server component there is skipped
+      {
+        code: `import pino from 'pino';`,
+        filename: '/app/src/features/report.tsx',
+        options: [
+          {
+            directiveAware: true,
+            serverComponentPatterns: ['**/features/**'],
+          },
+        ],
+      },
+      // Type-only imports remain safe even in a 'use client' file
+      {
+        code: `'use client';\nimport type { PrismaClient } from '@prisma/client';`,
+        filename: '/app/src/components/counter.tsx',
+        options: [{ directiveAware: true }],
+      },
+    ],
+    invalid: [
+      // 'use client' file under components/ importing a server module - BLOCKED
+      {
+        code: `'use client';\nimport { PrismaClient } from '@prisma/client';`,
+        filename: '/app/src/components/counter.tsx',
+        options: [{ directiveAware: true }],
+        // 'use client' files get no server-only marker suggestion (they conflict)
+        errors: [{ messageId: 'serverOnlyImport', suggestions: 0 }],
+      },
+      // 'use client' file OUTSIDE clientFilePatterns is still checked (directive wins)
+      {
+        code: `'use client';\nimport pino from 'pino';`,
+        filename: '/app/src/lib/use-logger.ts',
+        options: [{ directiveAware: true }],
+        errors: [{ messageId: 'serverOnlyImport', suggestions: 0 }],
+      },
+      // Sanity: without directiveAware the same server component IS flagged
+      {
+        code: `import { PrismaClient } from '@prisma/client';`,
+        filename: '/app/src/components/user-list.tsx',
+        errors: [
+          { messageId: 'serverOnlyImport', suggestions: importSuggestions },
+        ],
+      },
+    ],
+  }
+);
+
+// Local module fixtures for followLocalImports
+writeFixture('src/lib/db.ts', `import { PrismaClient } from '@prisma/client';\nexport const db = new PrismaClient();`);
+writeFixture('src/lib/users.ts', `import { db } from './db';\nexport const listUsers = () => db.user.findMany();`);
+writeFixture('src/lib/format.ts', `export const format = (value: string) => value.trim();`);
+writeFixture('src/lib/types.ts', `import type { PrismaClient } from '@prisma/client';\nexport type Db = PrismaClient;`);
+writeFixture('src/lib/reexports.ts', `export { db } from './db';`);
+writeFixture('src/lib/type-reexports.ts', `export type { Db } from './types';\nexport { format } from './format';`);
+writeFixture('src/lib/cycle-a.ts', `import { b } from './cycle-b';\nexport const a = () => b;`);
+writeFixture('src/lib/cycle-b.ts', `import { a } from './cycle-a';\nexport const b = () => a;`);
+writeFixture('src/lib/logging/index.ts', `import pino from 'pino';\nexport const logger = pino();`);
+writeFixture('src/lib/deep/a.ts', `export * from './b';`);
+writeFixture('src/lib/deep/b.ts', `export * from './c';`);
+writeFixture('src/lib/deep/c.ts', `import { Pool } from 'pg';\nexport const pool = new Pool();`);
+writeFixture('src/server/queries.ts', `export const getUsers = () => [];`);
+writeFixture('src/lib/actions.ts', `'use server';\nimport { db } from './db';\nexport async function saveUser() { await db.user.create(); }`);
+writeFixture('src/server/actions.ts', `'use server';\nexport async function deleteUser() {}`);
+
+ruleTester.run('no-server-imports - followLocalImports', plugin.rules['no-server-imports'], {
+  valid: [
+    // Disabled by default: local modules are not followed
+    {
+      code: `import { db } from '../lib/db';\nexport const Users = () => db;`,
+      filename: fixturePath('src/components/Users.tsx'),
+    },
+    // Local module without server-only imports
+    {
+      code: `import { format } from '../lib/format';\nexport const Name = () => format(' x ');`,
+      filename: fixturePath('src/components/Name.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    // Local module that only imports server types
+    {
+      code: `import { type Db } from '../lib/types';\nimport '../lib/types';`,
+      filename: fixturePath('src/components/Types.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    // Type-only import of a local server module is erased
+    {
+      code: `import type { db } from '../lib/db';`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    // Type-only re-export in the followed module is not followed
+    {
+      code: `import { format } from '../lib/type-reexports';\nformat('x');`,
+      filename: fixturePath('src/components/Name.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    // Import cycles terminate
+    {
+      code: `import { a } from '../lib/cycle-a';\na();`,
+      filename: fixturePath('src/components/Cycle.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    // Server-only module beyond maxImportDepth is not reached
+    {
+      code: `import { pool } from '../lib/deep/a';\npool.query('SELECT 1');`,
+      filename: fixturePath('src/components/Deep.tsx'),
+      options: [{ followLocalImports: true, maxImportDepth: 2 }],
+    },
+    // Unresolvable local imports are ignored
+    {
+      code: `import { missing } from '../lib/missing';\nmissing();`,
+      filename: fixturePath('src/components/Missing.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    // Server Actions modules ('use server') are called over RPC, not bundled
+    {
+      code: `import { saveUser } from '../lib/actions';\nexport const Form = () => saveUser;`,
+      filename: fixturePath('src/components/Form.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    {
+      code: `import { deleteUser } from '../server/actions';\nexport const Button = () => deleteUser;`,
+      filename: fixturePath('src/components/Button.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+    // Local import used only inside a server function callback
+    {
+      code: `import { db } from '../lib/db';\nconst fn = createServerFn().handler(() => db.user.findMany());`,
+      filename: fixturePath('src/routes/users.tsx'),
+      options: [{ followLocalImports: true }],
+    },
+  ],
+
+  invalid: [
+    // Direct local module importing a server-only module
+    {
+      code: `import { db } from '../lib/db';\nexport const Users = () => db;`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module: '../lib/db',
+            serverModule: '@prisma/client',
+            chain: '../lib/db → @prisma/client',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Two hops: client → users → db → @prisma/client
+    {
+      code: `import { listUsers } from '../lib/users';\nlistUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module: '../lib/users',
+            serverModule: '@prisma/client',
+            chain: '../lib/users → ./db → @prisma/client',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // TypeScript ESM specifier with .js extension resolves to the .ts source
+    {
+      code: `import { db } from '../lib/db.js';\ndb.user.findMany();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [{ messageId: 'serverOnlyTransitiveImport', suggestions: importSuggestions }],
+    },
+    // Directory import resolves to index file
+    {
+      code: `import { logger } from '../lib/logging';\nlogger.info('x');`,
+      filename: fixturePath('src/components/Logger.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module: '../lib/logging',
+            serverModule: 'pino',
+            chain: '../lib/logging → pino',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Re-exports in the followed module are followed
+    {
+      code: `import { db } from '../lib/reexports';\ndb.user.findMany();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module: '../lib/reexports',
+            serverModule: '@prisma/client',
+            chain: '../lib/reexports → ./db → @prisma/client',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Deep chain within the default depth
+    {
+      code: `import { pool } from '../lib/deep/a';\npool.query('SELECT 1');`,
+      filename: fixturePath('src/components/Deep.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module: '../lib/deep/a',
+            serverModule: 'pg',
+            chain: '../lib/deep/a → ./b → ./c → pg',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Local module matching serverFilePatterns
+    {
+      code: `import { getUsers } from '../server/queries';\ngetUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [{ messageId: 'serverFileImport', suggestions: importSuggestions }],
+    },
+    // Side-effect import of a local server module
+    {
+      code: `import '../lib/db';`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [{ messageId: 'serverOnlyTransitiveImport', suggestions: importSuggestions }],
+    },
+    // Re-export of a local server module from a client file
+    {
+      code: `export * from '../lib/users';`,
+      filename: fixturePath('src/components/index.ts'),
+      options: [{ followLocalImports: true }],
+      errors: [{ messageId: 'serverOnlyTransitiveImport', suggestions: reexportSuggestions }],
+    },
+    // Local import used outside the server function callback
+    {
+      code: `import { db } from '../lib/db';\ndb.user.count();\nconst fn = createServerFn().handler(() => db.user.findMany());`,
+      filename: fixturePath('src/routes/users.tsx'),
+      options: [{ followLocalImports: true }],
+      errors: [{ messageId: 'serverOnlyTransitiveImport', suggestions: importSuggestions }],
+    },
+  ],
+});
+
+// Alias fixtures for resolveAliases (tsconfig paths + package.json imports)
+writeFixture(
+  'tsconfig.json',
+  `{
+  // JSONC: comments and trailing commas are allowed
+  "compilerOptions": {
+    "paths": { "@/*": ["./src/*"], },
+  },
+}`
+);
+writeFixture(
+  'package.json',
+  JSON.stringify({
+    imports: {
+      '#db/*': './src/server/db/*.ts',
+      '#logger': './src/lib/logging/index.ts',
+      '#config': {
+        browser: './src/lib/config.browser.ts',
+        default: './src/server/config.ts',
+      },
+    },
+  })
+);
+writeFixture('src/server/db/client.ts', `export const client = {};`);
+writeFixture('src/server/config.ts', `export const config = { secret: 'x' };`);
+writeFixture('src/lib/config.browser.ts', `export const config = {};`);
+writeFixture('src/lib/auth.server.ts', `export const auth = () => null;`);
+writeFixture('src/lib/alias-users.ts', `import { db } from '@/lib/db';\nexport const listUsers = () => db.user.findMany();`);
+
+ruleTester.run('no-server-imports - resolveAliases', plugin.rules['no-server-imports'], {
+  valid: [
+    // Disabled by default: aliases are not resolved
+    {
+      code: `import { getUsers } from '@/server/queries';\ngetUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+    },
+    // Alias to a non-server file
+    {
+      code: `import { format } from '@/lib/format';\nformat('x');`,
+      filename: fixturePath('src/components/Name.tsx'),
+      options: [{ resolveAliases: true }],
+    },
+    // Conditional package import picks the 'browser' target for client code
+    {
+      code: `import { config } from '#config';\nconsole.log(config);`,
+      filename: fixturePath('src/components/Config.tsx'),
+      options: [{ resolveAliases: true }],
+    },
+    // Type-only import of an aliased server file
+    {
+      code: `import type { getUsers } from '@/server/queries';`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ resolveAliases: true }],
+    },
+    // Bare package specifiers that don't match an alias
+    {
+      code: `import { useState } from 'react';\nuseState();`,
+      filename: fixturePath('src/components/Counter.tsx'),
+      options: [{ resolveAliases: true }],
+    },
+    // Without followLocalImports, aliased non-server modules are not followed
+    {
+      code: `import { listUsers } from '@/lib/users';\nlistUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ resolveAliases: true }],
+    },
+  ],
+
+  invalid: [
+    // tsconfig paths alias to a server/** file
+    {
+      code: `import { getUsers } from '@/server/queries';\ngetUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ resolveAliases: true }],
+      errors: [
+        {
+          messageId: 'serverFileImport',
+          data: {
+            module: '@/server/queries',
+            file: '../server/queries.ts',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // tsconfig paths alias to a *.server.ts file
+    {
+      code: `import { auth } from '@/lib/auth.server';\nauth();`,
+      filename: fixturePath('src/components/Login.tsx'),
+      options: [{ resolveAliases: true }],
+      errors: [{ messageId: 'serverFileImport', suggestions: importSuggestions }],
+    },
+    // package.json imports wildcard alias
+    {
+      code: `import { client } from '#db/client';\nconsole.log(client);`,
+      filename: fixturePath('src/routes/index.tsx'),
+      options: [{ resolveAliases: true }],
+      errors: [{ messageId: 'serverFileImport', suggestions: importSuggestions }],
+    },
+    // Re-export of an aliased server file
+    {
+      code: `export { getUsers } from '@/server/queries';`,
+      filename: fixturePath('src/components/index.ts'),
+      options: [{ resolveAliases: true }],
+      errors: [{ messageId: 'serverFileImport', suggestions: reexportSuggestions }],
+    },
+    // Aliases are followed with followLocalImports
+    {
+      code: `import { listUsers } from '@/lib/users';\nlistUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ resolveAliases: true, followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module: '@/lib/users',
+            serverModule: '@prisma/client',
+            chain: '@/lib/users → ./db → @prisma/client',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    {
+      code: `import { logger } from '#logger';\nlogger.info('x');`,
+      filename: fixturePath('src/components/Logger.tsx'),
+      options: [{ resolveAliases: true, followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: { module: '#logger', serverModule: 'pino', chain: '#logger → pino' },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Aliased imports inside followed modules are followed too
+    {
+      code: `import { listUsers } from '../lib/alias-users';\nlistUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ resolveAliases: true, followLocalImports: true }],
+      errors: [
+        {
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module: '../lib/alias-users',
+            serverModule: '@prisma/client',
+            chain: '../lib/alias-users → @/lib/db → @prisma/client',
+          },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+  ],
+});
+
+// Server-marked local modules for checkServerMarkedImports
+writeFixture('src/lib/secrets.ts', `import 'server-only';\nexport const apiKey = 'x';`);
+writeFixture(
+  'src/lib/mixed.ts',
+  `import 'server-only';\nexport async function save() {\n  'use server';\n}\nexport const secret = 'x';`
+);
+writeFixture(
+  'src/lib/actions-config.ts',
+  `'use server';\nexport const config = { retries: 3 };\nexport async function retry() {}`
+);
+
+ruleTester.run('no-server-imports - checkServerMarkedImports', plugin.rules['no-server-imports'], {
+  valid: [
+    // Disabled by default
+    {
+      code: `import { apiKey } from '../lib/secrets';\nexport const key = apiKey;`,
+      filename: fixturePath('src/components/Key.tsx'),
+    },
+    // Server Actions from a 'use server' module
+    {
+      code: `import { saveUser } from '../lib/actions';\nimport * as actions from '../server/actions';\nexport const handlers = [saveUser, actions];`,
+      filename: fixturePath('src/components/Form.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+    },
+    // Inline Server Actions from a server-only module
+    {
+      code: `import { save } from '../lib/mixed';\nexport const onSave = save;`,
+      filename: fixturePath('src/components/Save.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+    },
+    // Unmarked local modules and type-only imports
+    {
+      code: `import { format } from '../lib/format';\nimport type { apiKey } from '../lib/secrets';\nexport const value: typeof apiKey = format(' x ');`,
+      filename: fixturePath('src/components/Format.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+    },
+  ],
+
+  invalid: [
+    // Module importing 'server-only' - BLOCKED
+    {
+      code: `import { apiKey } from '../lib/secrets';\nexport const key = apiKey;`,
+      filename: fixturePath('src/components/Key.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+      errors: [
+        {
+          messageId: 'serverMarkedModuleImport',
+          data: { module: '../lib/secrets', marker: "import 'server-only'" },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Aliased imports are resolved too, and usage in server scopes doesn't help - BLOCKED
+    {
+      code: `import { apiKey } from '@/lib/secrets';\nexport const getKey = createServerFn().handler(() => apiKey);`,
+      filename: fixturePath('src/routes/key.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+      errors: [
+        {
+          messageId: 'serverMarkedModuleImport',
+          data: { module: '@/lib/secrets', marker: "import 'server-only'" },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Non-action exports next to Server Actions - BLOCKED
+    {
+      code: `import { save, secret } from '../lib/mixed';\nexport const values = [save, secret];`,
+      filename: fixturePath('src/components/Mixed.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+      errors: [{ messageId: 'serverMarkedModuleImport', suggestions: importSuggestions }],
+    },
+    {
+      code: `import { config } from '../lib/actions-config';\nexport const retries = config.retries;`,
+      filename: fixturePath('src/components/Retry.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+      errors: [
+        {
+          messageId: 'serverMarkedModuleImport',
+          data: { module: '../lib/actions-config', marker: "'use server'" },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+    // Module matching serverFilePatterns, and side-effect imports - BLOCKED
+    {
+      code: `import '../lib/secrets';\nimport { getUsers } from '../server/queries';\nexport const users = getUsers();`,
+      filename: fixturePath('src/components/Users.tsx'),
+      options: [{ checkServerMarkedImports: true }],
+      errors: [
+        {
+          messageId: 'serverMarkedModuleImport',
+          data: { module: '../lib/secrets', marker: "import 'server-only'" },
+          suggestions: importSuggestions,
+        },
+        {
+          messageId: 'serverMarkedModuleImport',
+          data: { module: '../server/queries', marker: 'serverFilePatterns' },
+          suggestions: importSuggestions,
+        },
+      ],
+    },
+  ],
+});
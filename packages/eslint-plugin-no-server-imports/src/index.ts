@@ -8,11 +8,56 @@
  * @license MIT
  */
 
-import { AST_NODE_TYPES, ESLintUtils } from '@typescript-eslint/utils';
+import path from 'node:path';
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
 import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
 import picomatch from 'picomatch';
+import { createRule } from './create-rule';
+import {
+  FILE_CLASSIFICATION_SCHEMA,
+  classifyFile,
+  findMarkerImport,
+  getServerFilePatterns,
+  hasDirective,
+  hasUseClientDirective,
+  hasUseServerDirective,
+  isDirectivePrologue,
+} from './file-classification';
+import type { FileClassificationOptions, FileKind } from './file-classification';
+import {
+  getExportedFunctions,
+  isRelativeSpecifier,
+  parseModule,
+  resolveAliasedImport,
+  resolveLocalImport,
+  resolveSvelteKitLib,
+} from './local-imports';
+import {
+  createModuleMatcher,
+  getDynamicImportSource,
+  getRequireSource,
+  hasValueExportSpecifiers,
+  hasValueImportSpecifiers,
+} from './module-matching';
+import { findNodeGlobalReferences } from './node-globals';
+import { noAsyncServerComponentInClient } from './no-async-server-component-in-client';
+import { noBrowserApisInServer } from './no-browser-apis-in-server';
+import { noClientApisInServerComponents } from './no-client-apis-in-server-components';
+import { noNodeInEdge } from './no-node-in-edge';
+import { noPrivateEnvInClient } from './no-private-env-in-client';
+import {
+  SERVER_SCOPE_SCHEMA,
+  createServerScopeTracker,
+  getImportedName,
+  isUseServerFunction,
+  mergeListeners,
+} from './server-scopes';
+import type { ServerScopeOptions } from './server-scopes';
 
-/** Default server-only modules that should not be imported in client code */
+/**
+ * Default server-only modules that should not be imported in client code.
+ * Node.js built-ins are matched separately (see checkNodeBuiltins).
+ */
 const DEFAULT_SERVER_MODULES = [
   // Logging
   'pino',
@@ -116,150 +161,131 @@ const DEFAULT_SERVER_MODULES = [
   'jsdom',
   // Database (additional)
   'ravendb',
-  // Node.js built-ins
-  'fs',
-  'node:fs',
-  'fs/promises',
-  'node:fs/promises',
-  'path',
-  'node:path',
-  'crypto',
-  'node:crypto',
-  'child_process',
-  'node:child_process',
-  'os',
-  'node:os',
-  'net',
-  'node:net',
-  'dns',
-  'node:dns',
-  'cluster',
-  'node:cluster',
-  'worker_threads',
-  'node:worker_threads',
 ];
 
-/** Default file patterns that indicate server-only code */
-const DEFAULT_SERVER_FILE_PATTERNS = [
-  '**/*.server.ts',
-  '**/*.server.tsx',
-  '**/*.server.js',
-  '**/server/**',
-  '**/api/**',
-  '**/_server/**',
-];
+/**
+ * Remix / React Router route exports that are stripped from the client
+ * bundle. `clientLoader` and `clientAction` run in the browser.
+ */
+const REACT_ROUTER_SERVER_EXPORTS = ['loader', 'action', 'headers'];
 
-/** Default file patterns that indicate client code */
-const DEFAULT_CLIENT_FILE_PATTERNS = [
-  '**/routes/**',
-  '**/pages/**',
-  '**/components/**',
-  '**/islands/**',
-  '**/src/app/**', // Next.js app directory (in src)
-  // Note: For Next.js root-level app/, users should configure clientFilePatterns
-  // We can't use '**/app/**' as it's too broad and matches paths like '/myapp/src/...'
+/** Qwik City server helpers, verified by their import source */
+const QWIK_CITY_SERVER_FUNCTIONS = ['routeLoader$', 'routeAction$', 'globalAction$', 'server$'].map(
+  (name) => ({ name, from: '@builder.io/qwik-city' })
+);
+
+/** Qwik City request handler route exports */
+const QWIK_CITY_SERVER_EXPORTS = [
+  'onRequest',
+  'onGet',
+  'onPost',
+  'onPut',
+  'onPatch',
+  'onDelete',
+  'onHead',
+  'onOptions',
 ];
 
 /** Configuration options for the no-server-imports rule */
-export interface RuleOptions {
+export interface RuleOptions extends FileClassificationOptions, ServerScopeOptions {
   /** Additional server-only modules to check (merged with defaults) */
   serverModules?: string[];
-  /** Additional server-only file patterns to check (merged with defaults) */
-  serverFilePatterns?: string[];
-  /** File patterns that indicate client code (overrides defaults if provided) */
-  clientFilePatterns?: string[];
-  /** File patterns to completely ignore */
-  ignoreFiles?: string[];
   /** Whether to check for 'server-only' import marker */
   checkServerOnlyMarker?: boolean;
-  /** Whether to check for server function usage (createServerFn, etc.) */
-  checkServerFunctions?: boolean;
-  /** Server function names to check for */
-  serverFunctionNames?: string[];
   /** Whether to report unused server-only imports (default: true) */
   reportUnusedImports?: boolean;
-  /** File selection mode: 'client-only' checks only clientFilePatterns, 'all-non-server' checks all except server files */
-  mode?: 'client-only' | 'all-non-server';
   /** Next.js serverExternalPackages - merged into serverModules (for Next.js projects) */
   serverExternalPackages?: string[];
   /**
-   * When true, the `'use client'` directive (not the file path) decides whether a
-   * file is client code. A file that declares `'use client'` is always checked,
-   * even outside clientFilePatterns; a file WITHOUT the directive that matches
-   * serverComponentPatterns is treated as a React Server Component and skipped
-   * (it may legitimately import server-only modules). Designed for the Next.js
-   * App Router, where client and server components are intermixed by path.
+   * When true, relative imports are resolved and the local modules they point
+   * to are followed, so a client file importing `../lib/db` is reported when
+   * that module (or one it imports) pulls in a server-only module or is a
+   * server file. Off by default because it reads and parses files from disk.
    */
-  directiveAware?: boolean;
+  followLocalImports?: boolean;
+  /** How many local modules deep to follow imports (requires followLocalImports; default: 3) */
+  maxImportDepth?: number;
   /**
-   * Path patterns that are React Server Components by default and are only
-   * checked when they declare `'use client'`. Only used when `directiveAware`
-   * is true. Defaults to `clientFilePatterns`.
+   * When true, aliased imports are resolved through `compilerOptions.paths` in
+   * the nearest tsconfig.json and the `imports` field of the nearest
+   * package.json. An alias that resolves to a file matching serverFilePatterns
+   * is reported, and followLocalImports follows aliases like relative imports.
    */
-  serverComponentPatterns?: string[];
+  resolveAliases?: boolean;
+  /**
+   * When true, imports of `*.server` modules and anything inside a `.server/`
+   * directory are treated as server-only modules, following the Remix /
+   * React Router convention
+   */
+  dotServerModules?: boolean;
+  /**
+   * When true, relative and aliased imports are resolved and the target
+   * module's first statements are read. A module that imports `server-only`,
+   * declares a top-level `'use server'`, or matches serverFilePatterns is
+   * server code, and importing anything but its Server Actions is reported.
+   */
+  checkServerMarkedImports?: boolean;
+  /**
+   * Node.js globals your bundler polyfills, allowed in client code. Name a
+   * global (`Buffer`) or a member (`process.cwd`).
+   */
+  allowedNodeGlobals?: string[];
+  /**
+   * Whether to treat Node.js built-in modules (every entry of Node's
+   * `builtinModules`, with or without the `node:` prefix) as server-only
+   * (default: true)
+   */
+  checkNodeBuiltins?: boolean;
+  /**
+   * Node.js built-ins your bundler polyfills, allowed in client code (e.g.
+   * `events`, `buffer`, `util`). Also covers their subpaths and `node:` forms.
+   */
+  browserSafeBuiltins?: string[];
 }
 
 type MessageIds =
   | 'serverOnlyImport'
   | 'serverOnlyRequire'
+  | 'serverOnlyDynamicImport'
+  | 'serverOnlyTransitiveImport'
+  | 'serverFileImport'
+  | 'serverMarkedModuleImport'
+  | 'hydratedIslandServerImport'
+  | 'svelteScriptServerImport'
+  | 'nodeGlobalInClient'
+  | 'conflictingBoundaryMarkers'
+  | 'inlineServerActionInClient'
   | 'suggestServerOnlyMarker';
 type Options = [RuleOptions?];
 
-const createRule = ESLintUtils.RuleCreator(
-  () => 'https://github.com/jagreehal/eslint-plugin-no-server-imports#readme'
-);
-
 /**
- * Checks if an import declaration has any value (non-type) specifiers.
- * Returns false if ALL specifiers are type-only imports.
+ * Gets the sources of all value imports and re-exports in a module
  */
-function hasValueImportSpecifiers(node: TSESTree.ImportDeclaration): boolean {
-  // If the whole import is type-only, no value specifiers
-  if (node.importKind === 'type') {
-    return false;
-  }
-
-  // If no specifiers (side-effect import like `import 'module'`), it's a value import
-  if (node.specifiers.length === 0) {
-    return true;
-  }
-
-  // Check if ANY specifier is a value import (not type-only)
-  return node.specifiers.some((specifier) => {
-    // Default imports and namespace imports don't have importKind
-    if (specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier) {
-      return true; // Default imports are always value imports
-    }
-    if (specifier.type === AST_NODE_TYPES.ImportNamespaceSpecifier) {
-      return true; // Namespace imports are always value imports
-    }
-    // For named imports, check if it's a type import
-    if (specifier.type === AST_NODE_TYPES.ImportSpecifier) {
-      return specifier.importKind !== 'type';
+function getModuleImportSources(ast: TSESTree.Program): string[] {
+  const sources: string[] = [];
+  for (const statement of ast.body) {
+    switch (statement.type) {
+      case AST_NODE_TYPES.ImportDeclaration: {
+        if (hasValueImportSpecifiers(statement)) {
+          sources.push(statement.source.value);
+        }
+        break;
+      }
+      case AST_NODE_TYPES.ExportAllDeclaration: {
+        if (statement.exportKind !== 'type') {
+          sources.push(statement.source.value);
+        }
+        break;
+      }
+      case AST_NODE_TYPES.ExportNamedDeclaration: {
+        if (statement.source && hasValueExportSpecifiers(statement)) {
+          sources.push(statement.source.value);
+        }
+        break;
+      }
     }
-    return true;
-  });
-}
-
-/**
- * Checks if an export declaration has any value (non-type) specifiers.
- * Returns false if ALL specifiers are type-only exports.
- */
-function hasValueExportSpecifiers(node: TSESTree.ExportNamedDeclaration): boolean {
-  // If the whole export is type-only, no value specifiers
-  if (node.exportKind === 'type') {
-    return false;
-  }
-
-  // If no specifiers but has source (re-export), check the specifiers
-  if (node.specifiers.length === 0) {
-    return true; // `export * from 'module'` is a value export
   }
-
-  // Check if ANY specifier is a value export (not type-only)
-  return node.specifiers.some((specifier) => {
-    return specifier.exportKind !== 'type';
-  });
+  return sources;
 }
 
 /**
@@ -290,43 +316,108 @@ function getValueImportNames(node: TSESTree.ImportDeclaration): string[] {
 }
 
 /**
- * Checks if a node is inside a given scope (function/arrow function)
+ * Gets the exported names an import declaration binds as values: `default`,
+ * `*` for a namespace import, or the imported name of a named specifier
+ */
+function getImportedExportNames(node: TSESTree.ImportDeclaration): string[] {
+  const names: string[] = [];
+  for (const specifier of node.specifiers) {
+    switch (specifier.type) {
+      case AST_NODE_TYPES.ImportDefaultSpecifier: {
+        names.push('default');
+        break;
+      }
+      case AST_NODE_TYPES.ImportNamespaceSpecifier: {
+        names.push('*');
+        break;
+      }
+      case AST_NODE_TYPES.ImportSpecifier: {
+        if (specifier.importKind !== 'type') {
+          names.push(getImportedName(specifier));
+        }
+        break;
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Gets the names a module exports as Server Actions: every exported async
+ * function of a `'use server'` module (and `*`, since the whole module is
+ * actions), or exported functions with their own `'use server'` directive
  */
-function isNodeInsideScope(node: TSESTree.Node, scopeNode: TSESTree.Node): boolean {
-  let current: TSESTree.Node | undefined = node;
-  while (current) {
-    if (current === scopeNode) {
-      return true;
+function getServerActionExports(ast: TSESTree.Program): Set<string> {
+  const isServerActionsModule = hasDirective(ast.body, 'use server');
+  const actions = new Set<string>(isServerActionsModule ? ['*'] : []);
+  for (const [name, fn] of getExportedFunctions(ast)) {
+    const isServerAction = isServerActionsModule
+      ? fn.async
+      : fn.body.type === AST_NODE_TYPES.BlockStatement && hasDirective(fn.body.body, 'use server');
+    if (isServerAction) {
+      actions.add(name);
     }
-    current = current.parent;
   }
-  return false;
+  return actions;
 }
 
 /**
- * Checks if a node is a directive prologue (e.g., 'use client', 'use strict')
+ * Checks if a specifier names a `*.server` module or a module inside a
+ * `.server/` directory, e.g. `~/db.server`, `./auth.server.ts`, `~/.server/env`
  */
-function isDirectivePrologue(node: TSESTree.Statement): boolean {
-  return (
-    node.type === AST_NODE_TYPES.ExpressionStatement &&
-    node.expression.type === AST_NODE_TYPES.Literal &&
-    typeof node.expression.value === 'string'
-  );
+function isDotServerModule(specifier: string): boolean {
+  const segments = specifier.split('/');
+  if (segments.includes('.server')) {
+    return true;
+  }
+  const [basename] = segments.slice(-1);
+  return /\.server(?:\.[cm]?[jt]sx?)?$/.test(basename);
 }
 
 /**
- * Checks if the file has a 'use client' directive
+ * Minimal shape of svelte-eslint-parser's `<script>` element node
  */
-function hasUseClientDirective(sourceCode: TSESLint.SourceCode): boolean {
-  const ast = sourceCode.ast;
-  if (!ast.body || ast.body.length === 0) return false;
+interface SvelteScriptElement {
+  type: 'SvelteScriptElement';
+  startTag: {
+    attributes: { type: string; key: { name: string }; value?: { value?: string }[] }[];
+  };
+}
 
-  for (const node of ast.body) {
-    if (!isDirectivePrologue(node)) break;
-    const expr = (node as TSESTree.ExpressionStatement).expression as TSESTree.Literal;
-    if (expr.value === 'use client') return true;
+/**
+ * Checks if a node is svelte-eslint-parser's `<script>` element
+ */
+function isSvelteScriptElement(node: object): node is SvelteScriptElement {
+  return 'type' in node && node.type === 'SvelteScriptElement';
+}
+
+/**
+ * Describes the Svelte `<script>` block containing a node the way it is
+ * written: `<script context="module">` (Svelte 4), `<script module>`
+ * (Svelte 5) or `<script>`. Returns null outside .svelte files.
+ */
+function getSvelteScriptBlock(node: TSESTree.Node): string | null {
+  for (let current: TSESTree.Node | undefined = node; current; current = current.parent) {
+    // svelte-eslint-parser nodes are outside TSESTree's node types
+    const element: object = current;
+    if (!isSvelteScriptElement(element)) {
+      continue;
+    }
+    const { attributes } = element.startTag;
+    for (const attribute of attributes) {
+      if (attribute.type !== 'SvelteAttribute') {
+        continue;
+      }
+      if (attribute.key.name === 'module') {
+        return '<script module>';
+      }
+      if (attribute.key.name === 'context' && attribute.value?.[0]?.value === 'module') {
+        return '<script context="module">';
+      }
+    }
+    return '<script>';
   }
-  return false;
+  return null;
 }
 
 /**
@@ -456,63 +547,64 @@ export const rule = createRule<Options, MessageIds>({
       {
         type: 'object',
         properties: {
+          ...FILE_CLASSIFICATION_SCHEMA,
+          ...SERVER_SCOPE_SCHEMA,
           serverModules: {
             type: 'array',
             items: { type: 'string' },
             description: 'Additional server-only modules to check',
           },
-          serverFilePatterns: {
-            type: 'array',
-            items: { type: 'string' },
-            description: 'Additional server-only file patterns',
-          },
-          clientFilePatterns: {
-            type: 'array',
-            items: { type: 'string' },
-            description: 'File patterns that indicate client code',
-          },
-          ignoreFiles: {
-            type: 'array',
-            items: { type: 'string' },
-            description: 'File patterns to ignore',
-          },
           checkServerOnlyMarker: {
             type: 'boolean',
             description: "Check for 'server-only' import marker",
           },
-          checkServerFunctions: {
-            type: 'boolean',
-            description: 'Check for server function usage',
-          },
-          serverFunctionNames: {
-            type: 'array',
-            items: { type: 'string' },
-            description: 'Server function names to check for',
-          },
           reportUnusedImports: {
             type: 'boolean',
             description: 'Whether to report unused server-only imports (default: true)',
           },
-          mode: {
-            type: 'string',
-            enum: ['client-only', 'all-non-server'],
-            description: 'File selection mode',
-          },
           serverExternalPackages: {
             type: 'array',
             items: { type: 'string' },
             description: 'Next.js serverExternalPackages to treat as server-only',
           },
-          directiveAware: {
+          followLocalImports: {
             type: 'boolean',
             description:
-              "Treat a file as client code only when it declares 'use client'; skip Server Components (matching serverComponentPatterns) that omit it",
+              'Follow relative imports into local modules and report those that pull in server-only modules',
           },
-          serverComponentPatterns: {
+          maxImportDepth: {
+            type: 'integer',
+            minimum: 1,
+            description: 'How many local modules deep to follow imports (default: 3)',
+          },
+          resolveAliases: {
+            type: 'boolean',
+            description:
+              'Resolve tsconfig paths and package.json imports aliases and report aliases of server files',
+          },
+          dotServerModules: {
+            type: 'boolean',
+            description: 'Treat imports of *.server modules and .server/ directories as server-only',
+          },
+          checkServerMarkedImports: {
+            type: 'boolean',
+            description:
+              "Report imports of local modules marked server-only, 'use server', or matching serverFilePatterns (except Server Actions)",
+          },
+          allowedNodeGlobals: {
             type: 'array',
             items: { type: 'string' },
             description:
-              "Path patterns checked only when they declare 'use client' (requires directiveAware; defaults to clientFilePatterns)",
+              'Node.js globals (e.g. "Buffer") or members (e.g. "process.cwd") allowed in client code',
+          },
+          checkNodeBuiltins: {
+            type: 'boolean',
+            description: 'Treat Node.js built-in modules as server-only (default: true)',
+          },
+          browserSafeBuiltins: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Node.js built-ins polyfilled by the bundler (e.g. "events"), allowed in client code',
           },
         },
         additionalProperties: false,
@@ -524,6 +616,24 @@ export const rule = createRule<Options, MessageIds>({
         'Server-only module "{{module}}" imported in client code. Use dynamic import in a server function: const mod = await import("{{module}}")',
       serverOnlyRequire:
         'Server-only module "{{module}}" required in client code. Use dynamic import in a server function instead.',
+      serverOnlyDynamicImport:
+        'Server-only module "{{module}}" dynamically imported outside a server function. Move the import() into a server function callback.',
+      serverOnlyTransitiveImport:
+        'Local module "{{module}}" pulls server-only module "{{serverModule}}" into client code: {{chain}}',
+      serverFileImport:
+        'Module "{{module}}" resolves to server file "{{file}}", which must not be imported in client code.',
+      serverMarkedModuleImport:
+        'Local module "{{module}}" is server code ({{marker}}) and must not be imported in client code. Only its Server Actions can be imported.',
+      hydratedIslandServerImport:
+        'Component "{{component}}" is hydrated in the browser with {{directive}}, but its module pulls in server-only code: {{chain}}',
+      svelteScriptServerImport:
+        'Server-only module "{{module}}" imported in Svelte {{block}}, which also runs in the browser. Load it in a +page.server.ts or +server.ts file instead.',
+      nodeGlobalInClient:
+        'Node.js global "{{name}}" used in client code, where it does not exist. Move it into a server function or a server file.',
+      conflictingBoundaryMarkers:
+        'Conflicting boundary markers: {{clientMarker}} makes this file client code, but {{serverMarker}} makes it server code. Split it into separate client and server modules.',
+      inlineServerActionInClient:
+        "Inline 'use server' functions are not allowed in a 'use client' file, and its imports are bundled for the browser. Move the Server Action into a 'use server' module and import it.",
       suggestServerOnlyMarker:
         "Add import 'server-only' to mark this file as server-only",
     },
@@ -537,36 +647,27 @@ export const rule = createRule<Options, MessageIds>({
       ...(options.serverModules || []),
       ...(options.serverExternalPackages || []), // Next.js integration
     ];
-    const serverFilePatterns = [
-      ...DEFAULT_SERVER_FILE_PATTERNS,
-      ...(options.serverFilePatterns || []),
-    ];
-    const clientFilePatterns =
-      options.clientFilePatterns || DEFAULT_CLIENT_FILE_PATTERNS;
-    const ignoreFiles = options.ignoreFiles || [];
+    // Compiled once; checked for every module followLocalImports resolves
+    const isServerFilePath = picomatch(getServerFilePatterns(options));
     const checkServerOnlyMarker = options.checkServerOnlyMarker ?? true;
-    const checkServerFunctions = options.checkServerFunctions ?? true;
-    const serverFunctionNames = options.serverFunctionNames || [
-      'createServerFn',
-      'createIsomorphicFn',
-      'server$',
-      'action$',
-      'loader$',
-    ];
     const reportUnusedImports = options.reportUnusedImports ?? true;
-    const mode = options.mode || 'client-only';
-    const directiveAware = options.directiveAware ?? false;
-    // Server Components live in the same dirs as client components, so default to
-    // clientFilePatterns: within those dirs, only 'use client' files are checked.
-    const serverComponentPatterns =
-      options.serverComponentPatterns || clientFilePatterns;
-
-    // Create Set for O(1) exact module lookups
-    const serverModuleSet = new Set(serverModules);
+    const followLocalImports = options.followLocalImports ?? false;
+    const maxImportDepth = options.maxImportDepth ?? 3;
+    const resolveAliases = options.resolveAliases ?? false;
+    const dotServerModules = options.dotServerModules ?? false;
+    const checkServerMarkedImports = options.checkServerMarkedImports ?? false;
+    const allowedNodeGlobals = new Set(options.allowedNodeGlobals || []);
+
+    // Server modules, subpaths, and Node.js built-ins except browserSafeBuiltins
+    const matchesServerModule = createModuleMatcher({
+      modules: serverModules,
+      checkNodeBuiltins: options.checkNodeBuiltins ?? true,
+      safeBuiltins: options.browserSafeBuiltins || [],
+    });
+    // SvelteKit `$lib/...` entries, also matched against relative imports
+    const libServerModules = serverModules.filter((mod) => mod.startsWith('$lib/'));
 
     const rawFilename = context.filename;
-    // Normalize Windows paths to POSIX for picomatch (backslashes are treated as escapes)
-    const filename = rawFilename.replaceAll('\\', '/');
     const sourceCode = context.sourceCode;
 
     // Track state
@@ -576,166 +677,348 @@ export const rule = createRule<Options, MessageIds>({
       module: string;
       node: TSESTree.ImportDeclaration;
       variables: TSESLint.Scope.Variable[];
+      /** Import chain through local modules (followLocalImports), ending at the server-only module */
+      chain: string[] | null;
     };
 
     const serverOnlyImports: ServerImport[] = [];
 
-    // Track server function callback scopes (functions that run server-side)
-    const serverFunctionScopes = new Set<TSESTree.Node>();
+    // Server function callbacks, 'use server' functions, server exports and guarded branches
+    const serverScopes = createServerScopeTracker(context, options);
 
     /**
-     * Checks if the current file should be ignored
+     * Checks if code only runs on the server: inside a server scope, or in
+     * the server branch of an environment guard. Guards only cover code that
+     * runs in place (import() and require() calls, Node.js globals); a static
+     * import is bundled for the client whichever branch uses it.
      */
-    function shouldIgnoreFile(): boolean {
-      if (ignoreFiles.length > 0) {
-        const isMatch = picomatch(ignoreFiles);
-        if (isMatch(filename)) {
-          return true;
-        }
-      }
-      return false;
+    function isInsideServerCode(node: TSESTree.Node): boolean {
+      return serverScopes.isInsideServerScope(node) || serverScopes.isInsideServerGuard(node);
     }
 
     /**
-     * Checks if the file is a server-only file (based on patterns)
+     * Checks if a relative import resolves into a `$lib/...` serverModules
+     * entry, e.g. `../server/db` from `src/lib/utils.ts` for `$lib/server`
      */
-    function isServerFile(): boolean {
-      const isMatch = picomatch(serverFilePatterns);
-      return isMatch(filename);
+    function isLibServerImport(importSource: string, fromFile: string): boolean {
+      if (libServerModules.length === 0 || !isRelativeSpecifier(importSource)) {
+        return false;
+      }
+      const libDir = resolveSvelteKitLib(fromFile);
+      if (!libDir) {
+        return false;
+      }
+      const target = path.resolve(path.dirname(fromFile), importSource).replaceAll('\\', '/');
+      return libServerModules.some((mod) => {
+        const dir = `${libDir}/${mod.slice('$lib/'.length)}`;
+        return target === dir || target.startsWith(`${dir}/`);
+      });
     }
 
     /**
-     * Checks if the file is a client file (based on patterns)
+     * Checks if an import source is a server-only module. Relative sources are
+     * resolved from `fromFile` (the linted file unless following local imports).
      */
-    function isClientFile(): boolean {
-      const isMatch = picomatch(clientFilePatterns);
-      return isMatch(filename);
+    function isServerOnlyModule(importSource: string, fromFile = rawFilename): boolean {
+      if (matchesServerModule(importSource)) {
+        return true;
+      }
+      if (dotServerModules && isDotServerModule(importSource)) {
+        return true;
+      }
+      return isLibServerImport(importSource, fromFile);
     }
 
     /**
-     * Checks if the file is a React Server Component by path (used only in
-     * directiveAware mode to skip files that omit the 'use client' directive).
+     * Resolves a relative (or, with resolveAliases, aliased) import specifier
+     * to a local file
      */
-    function isServerComponentFile(): boolean {
-      const isMatch = picomatch(serverComponentPatterns);
-      return isMatch(filename);
+    function resolveImportPath(specifier: string, fromFile: string): string | null {
+      if (isRelativeSpecifier(specifier)) {
+        return resolveLocalImport(specifier, fromFile);
+      }
+      return resolveAliases ? resolveAliasedImport(specifier, fromFile) : null;
     }
 
     /**
-     * Checks if an import source is a server-only module
+     * Follows a local import into the module it resolves to, looking
+     * for a server file or a server-only module import up to `remainingDepth`
+     * modules deep.
+     *
+     * @returns The import chain (specifiers as written) ending at the server-only
+     * module or server file, or null if none is reachable
      */
-    function isServerOnlyModule(importSource: string): boolean {
-      // O(1) check for exact match
-      if (serverModuleSet.has(importSource)) {
-        return true;
+    function findServerOnlyChain(
+      specifier: string,
+      fromFile: string,
+      remainingDepth: number,
+      visited = new Set<string>()
+    ): string[] | null {
+      const resolved = resolveImportPath(specifier, fromFile);
+      if (!resolved || visited.has(resolved)) {
+        return null;
       }
-      // Check for subpath imports (e.g., 'fs/promises' matches 'fs')
-      return serverModules.some(
-        (mod) => importSource.startsWith(`${mod}/`)
-      );
+      visited.add(resolved);
+
+      const ast = parseModule(resolved, context.languageOptions);
+
+      // Server Actions modules ('use server') are called over RPC, not bundled
+      if (ast && hasDirective(ast.body, 'use server')) {
+        return null;
+      }
+
+      if (isServerFilePath(resolved)) {
+        return [specifier];
+      }
+
+      if (!ast) {
+        return null;
+      }
+
+      const sources = getModuleImportSources(ast);
+      const serverOnlySource = sources.find((source) => isServerOnlyModule(source, resolved));
+      if (serverOnlySource) {
+        return [specifier, serverOnlySource];
+      }
+
+      if (remainingDepth > 1) {
+        for (const source of sources) {
+          const chain = findServerOnlyChain(source, resolved, remainingDepth - 1, visited);
+          if (chain) {
+            return [specifier, ...chain];
+          }
+        }
+      }
+
+      return null;
     }
 
     /**
-     * Recursively finds the root server function call from a chained call
-     * e.g., createServerFn().handler() -> finds createServerFn()
+     * Gets the chain from a local import in the linted file to a server-only
+     * module or server file, or null when there is none (or local imports are
+     * not inspected)
      */
-    function findServerFunctionCall(node: TSESTree.CallExpression): TSESTree.CallExpression | null {
-      // Check for direct call: createServerFn()
-      if (
-        node.callee.type === AST_NODE_TYPES.Identifier &&
-        serverFunctionNames.includes(node.callee.name)
-      ) {
-        return node;
+    function getLocalImportChain(source: string): string[] | null {
+      if (!isRelativeSpecifier(source) && !resolveAliases) {
+        return null;
       }
-      // Check for member call: createServerFn().handler()
-      if (
-        node.callee.type === AST_NODE_TYPES.MemberExpression &&
-        node.callee.object.type === AST_NODE_TYPES.CallExpression
-      ) {
-        return findServerFunctionCall(node.callee.object);
+      if (followLocalImports) {
+        return findServerOnlyChain(source, rawFilename, maxImportDepth);
       }
-      return null;
+      // Without following, only an alias that resolves to a server file is reported
+      if (isRelativeSpecifier(source)) {
+        return null;
+      }
+      const resolved = resolveAliasedImport(source, rawFilename);
+      if (!resolved || !isServerFilePath(resolved)) {
+        return null;
+      }
+      const ast = parseModule(resolved, context.languageOptions);
+      return ast && hasDirective(ast.body, 'use server') ? null : [source];
     }
 
     /**
-     * Extracts all function/arrow function arguments from a call expression chain
+     * Gets what makes a local module server code, reading its first
+     * statements: an `import 'server-only'`, a top-level `'use server'`, or a
+     * path matching serverFilePatterns
      */
-    function extractCallbacksFromChain(node: TSESTree.CallExpression): TSESTree.Node[] {
-      const callbacks: TSESTree.Node[] = [];
-
-      // Walk up the call chain to collect all callbacks
-      let current: TSESTree.Node = node;
-      while (current.type === AST_NODE_TYPES.CallExpression) {
-        // Check arguments for functions
-        for (const arg of current.arguments) {
-          if (
-            arg.type === AST_NODE_TYPES.ArrowFunctionExpression ||
-            arg.type === AST_NODE_TYPES.FunctionExpression
-          ) {
-            callbacks.push(arg);
+    function getModuleServerMarker(filePath: string, ast: TSESTree.Program | null): string | null {
+      const statements = ast?.body ?? [];
+      if (hasDirective(statements, 'use server')) {
+        return "'use server'";
+      }
+      // Imports are hoisted, so the marker sits among the leading import declarations
+      for (const statement of statements) {
+        if (statement.type !== AST_NODE_TYPES.ImportDeclaration) {
+          if (isDirectivePrologue(statement)) {
+            continue;
           }
-        }
-
-        // Move to parent if it's a chained call
-        if (
-          current.parent?.type === AST_NODE_TYPES.MemberExpression &&
-          current.parent.parent?.type === AST_NODE_TYPES.CallExpression
-        ) {
-          current = current.parent.parent;
-        } else {
           break;
         }
+        if (statement.source.value === 'server-only') {
+          return "import 'server-only'";
+        }
+      }
+      return isServerFilePath(filePath) ? 'serverFilePatterns' : null;
+    }
+
+    /**
+     * Checks a relative or aliased import against the module it resolves to
+     * (checkServerMarkedImports). Returns the marker that makes the module
+     * server code when the import binds anything but its Server Actions.
+     */
+    function getServerMarkedImport(node: TSESTree.ImportDeclaration): string | null {
+      const source = node.source.value;
+      const resolved = isRelativeSpecifier(source)
+        ? resolveLocalImport(source, rawFilename)
+        : resolveAliasedImport(source, rawFilename);
+      if (!resolved) {
+        return null;
+      }
+      const ast = parseModule(resolved, context.languageOptions);
+      const marker = getModuleServerMarker(resolved, ast);
+      if (!marker) {
+        return null;
+      }
+      const actions = ast ? getServerActionExports(ast) : new Set<string>();
+      const importedNames = getImportedExportNames(node);
+      // A side-effect import runs the whole module in the browser
+      if (importedNames.length === 0) {
+        return actions.has('*') ? null : marker;
+      }
+      return importedNames.every((name) => actions.has(name)) ? null : marker;
+    }
+
+    /**
+     * Reports a component rendered with a `client:*` directive in an Astro
+     * file when its module is a server file or imports a server-only module
+     * (following local imports up to maxImportDepth with followLocalImports)
+     */
+    function checkHydratedIsland(node: TSESTree.JSXElement): void {
+      const { openingElement } = node;
+      const directive = openingElement.attributes.find(
+        (attribute): attribute is TSESTree.JSXAttribute =>
+          attribute.type === AST_NODE_TYPES.JSXAttribute &&
+          attribute.name.type === AST_NODE_TYPES.JSXNamespacedName &&
+          attribute.name.namespace.name === 'client'
+      );
+      if (!directive || directive.name.type !== AST_NODE_TYPES.JSXNamespacedName) {
+        return;
+      }
+
+      // <Counter client:load /> or <Widgets.Chart client:visible />
+      let tag: TSESTree.JSXTagNameExpression = openingElement.name;
+      while (tag.type === AST_NODE_TYPES.JSXMemberExpression) {
+        tag = tag.object;
+      }
+      if (tag.type !== AST_NODE_TYPES.JSXIdentifier) {
+        return;
+      }
+      const componentName = tag.name;
+
+      const declaration = sourceCode.ast.body.find(
+        (statement): statement is TSESTree.ImportDeclaration =>
+          statement.type === AST_NODE_TYPES.ImportDeclaration &&
+          statement.importKind !== 'type' &&
+          statement.specifiers.some((specifier) => specifier.local.name === componentName)
+      );
+      if (!declaration) {
+        return;
+      }
+
+      const source = declaration.source.value;
+      const chain = isServerOnlyModule(source)
+        ? [source]
+        : findServerOnlyChain(source, rawFilename, followLocalImports ? maxImportDepth : 1);
+      if (!chain) {
+        return;
       }
 
-      return callbacks;
+      context.report({
+        node: openingElement.name,
+        messageId: 'hydratedIslandServerImport',
+        data: {
+          component: componentName,
+          directive: `client:${directive.name.name.name}`,
+          chain: chain.join(' → '),
+        },
+      });
+    }
+
+    /**
+     * Describes what makes a file server code, for client-only conflicts:
+     * the `server-only` marker, a `'use server'` directive, or its path
+     */
+    function getServerMarker(kind: FileKind): string | null {
+      if (findMarkerImport(sourceCode, 'server-only')) {
+        return "import 'server-only'";
+      }
+      if (hasUseServerDirective(sourceCode)) {
+        return "'use server'";
+      }
+      if (kind === 'server') {
+        return 'serverFilePatterns';
+      }
+      return kind === 'server-component' ? 'serverComponentPatterns' : null;
     }
 
     /**
-     * Gets the string value from a require() call argument
+     * Reports an inline Server Action in a 'use client' file, on its
+     * 'use server' directive
      */
-    function getRequireSource(node: TSESTree.CallExpression): string | null {
+    function checkInlineServerAction(
+      node:
+        | TSESTree.FunctionDeclaration
+        | TSESTree.FunctionExpression
+        | TSESTree.ArrowFunctionExpression
+    ): void {
       if (
-        node.callee.type === AST_NODE_TYPES.Identifier &&
-        node.callee.name === 'require' &&
-        node.arguments.length > 0
+        node.body.type !== AST_NODE_TYPES.BlockStatement ||
+        !isUseServerFunction(node) ||
+        !hasUseClientDirective(sourceCode)
       ) {
-        const arg = node.arguments[0];
-        if (arg.type === AST_NODE_TYPES.Literal && typeof arg.value === 'string') {
-          return arg.value;
-        }
+        return;
       }
-      return null;
+      const directive = node.body.body.find(
+        (statement) =>
+          statement.type === AST_NODE_TYPES.ExpressionStatement &&
+          statement.directive === 'use server'
+      );
+      context.report({ node: directive ?? node, messageId: 'inlineServerActionInClient' });
     }
 
-    // Skip if file should be ignored
-    if (shouldIgnoreFile()) {
-      return {};
+    /**
+     * Reports files that claim both sides of the boundary: a 'use client'
+     * file importing 'server-only', server code importing 'client-only', or
+     * an inline 'use server' function in a 'use client' file. These are
+     * checked wherever the file lives, because the file itself is
+     * contradictory.
+     */
+    function createBoundaryMarkerListeners(kind: FileKind): TSESLint.RuleListener {
+      return {
+        FunctionDeclaration: checkInlineServerAction,
+        FunctionExpression: checkInlineServerAction,
+        ArrowFunctionExpression: checkInlineServerAction,
+
+        Program() {
+          const serverOnlyImport = findMarkerImport(sourceCode, 'server-only');
+          if (serverOnlyImport && hasUseClientDirective(sourceCode)) {
+            context.report({
+              node: serverOnlyImport,
+              messageId: 'conflictingBoundaryMarkers',
+              data: { clientMarker: "'use client'", serverMarker: "import 'server-only'" },
+            });
+          }
+          const clientOnlyImport = findMarkerImport(sourceCode, 'client-only');
+          const serverMarker = clientOnlyImport && getServerMarker(kind);
+          if (clientOnlyImport && serverMarker) {
+            context.report({
+              node: clientOnlyImport,
+              messageId: 'conflictingBoundaryMarkers',
+              data: { clientMarker: "import 'client-only'", serverMarker },
+            });
+          }
+        },
+      };
     }
 
-    // Skip if this is a server file
-    if (isServerFile()) {
+    // Skip ignored files, server files, Server Components, and files that aren't client code
+    const fileKind = classifyFile(context, options);
+    if (fileKind === 'ignored') {
       return {};
     }
-
-    // Directive-aware selection (Next.js App Router): the 'use client' directive,
-    // not the path, decides whether a file is client code. A file that declares
-    // 'use client' is always checked; a Server Component (matches
-    // serverComponentPatterns) that omits it may import server-only modules.
-    const isDirectiveClient =
-      directiveAware && hasUseClientDirective(sourceCode);
-    if (directiveAware && !isDirectiveClient && isServerComponentFile()) {
-      return {};
+    const boundaryMarkerListeners = createBoundaryMarkerListeners(fileKind);
+
+    // Astro components: the frontmatter runs on the server, so only the
+    // islands hydrated in the browser are checked
+    if (fileKind === 'astro-component') {
+      return mergeListeners(boundaryMarkerListeners, {
+        JSXElement: checkHydratedIsland,
+      });
     }
-
-    // File selection based on mode
-    if (
-      mode === 'client-only' && // Only check files matching clientFilePatterns
-      !isClientFile() &&
-      !isDirectiveClient // a 'use client' file is client even outside clientFilePatterns
-    ) {
-      return {};
+    if (fileKind !== 'client') {
+      return boundaryMarkerListeners;
     }
-    // mode === 'all-non-server': check all files except server files (already filtered above)
 
     // Track require() calls with their variables (like imports)
     type ServerRequire = {
@@ -751,28 +1034,106 @@ export const rule = createRule<Options, MessageIds>({
       module: string;
     }> = [];
 
+    // Track imports of server-marked local modules (checkServerMarkedImports)
+    const serverMarkedImports: Array<{
+      node: TSESTree.ImportDeclaration;
+      module: string;
+      marker: string;
+    }> = [];
+
     // Track side-effect imports (import 'fs') to report in Program:exit
     const sideEffectImportViolations: Array<{
       node: TSESTree.ImportDeclaration;
       module: string;
+      chain: string[] | null;
+    }> = [];
+
+    // Track dynamic import() calls; they are only safe inside server scopes,
+    // which are known once the whole file has been traversed
+    const dynamicImportViolations: Array<{
+      node: TSESTree.ImportExpression;
+      module: string;
     }> = [];
 
     // Track re-export violations to report in Program:exit
     const reexportViolations: Array<{
       node: TSESTree.Node;
       module: string;
+      chain: string[] | null;
     }> = [];
 
-    function isInsideServerScope(node: TSESTree.Node): boolean {
-      for (const scope of serverFunctionScopes) {
-        if (isNodeInsideScope(node, scope)) {
-          return true;
+    /**
+     * Gets the local import chain for a re-exported relative module, or
+     * undefined when the source is neither server-only nor leads to one
+     */
+    function getReexportChain(source: string): string[] | null | undefined {
+      if (isServerOnlyModule(source)) {
+        return null;
+      }
+      return getLocalImportChain(source) ?? undefined;
+    }
+
+    /**
+     * Reports a server-only import, naming the local import chain when the
+     * server-only module was reached through a local module. A chain of one
+     * is a direct import of a server file.
+     */
+    function reportServerOnlyImport(
+      node: TSESTree.Node,
+      module: string,
+      chain: string[] | null,
+      suggest: TSESLint.SuggestionReportDescriptor<MessageIds>[]
+    ): void {
+      if (chain?.length === 1) {
+        // Show the server file relative to the linted file, like an import specifier
+        const resolved = resolveImportPath(module, rawFilename);
+        let file = resolved
+          ? path.relative(path.dirname(rawFilename), resolved).replaceAll('\\', '/')
+          : module;
+        if (resolved && !file.startsWith('.')) {
+          file = `./${file}`;
         }
+        context.report({
+          node,
+          messageId: 'serverFileImport',
+          data: { module, file },
+          suggest,
+        });
+        return;
+      }
+      if (chain) {
+        const [serverModule] = chain.slice(-1);
+        context.report({
+          node,
+          messageId: 'serverOnlyTransitiveImport',
+          data: {
+            module,
+            serverModule,
+            chain: chain.join(' → '),
+          },
+          suggest,
+        });
+        return;
       }
-      return false;
+      const block = getSvelteScriptBlock(node);
+      if (block) {
+        context.report({
+          node,
+          messageId: 'svelteScriptServerImport',
+          data: { module, block },
+          suggest,
+        });
+        return;
+      }
+      context.report({
+        node,
+        messageId: 'serverOnlyImport',
+        data: { module },
+        suggest,
+      });
     }
 
-    return {
+    return mergeListeners(serverScopes.listeners, boundaryMarkerListeners, {
       // Collect server-only imports and their local names
       ImportDeclaration(node) {
         const source = node.source.value;
@@ -783,8 +1144,7 @@ export const rule = createRule<Options, MessageIds>({
           return;
         }
 
-        // Skip if not a server-only module
-        if (typeof source !== 'string' || !isServerOnlyModule(source)) {
+        if (typeof source !== 'string') {
           return;
         }
 
@@ -793,10 +1153,23 @@ export const rule = createRule<Options, MessageIds>({
           return;
         }
 
+        // Skip if not a server-only module, or a local module that leads to one
+        let chain: string[] | null = null;
+        if (!isServerOnlyModule(source)) {
+          chain = getLocalImportChain(source);
+          if (!chain) {
+            const marker = checkServerMarkedImports ? getServerMarkedImport(node) : null;
+            if (marker) {
+              serverMarkedImports.push({ node, module: source, marker });
+            }
+            return;
+          }
+        }
+
         // Side-effect imports (import 'fs') have no specifiers - collect for reporting in Program:exit
         // They can't be conditionally used in server functions
         if (node.specifiers.length === 0) {
-          sideEffectImportViolations.push({ node, module: source });
+          sideEffectImportViolations.push({ node, module: source, chain });
           return;
         }
 
@@ -811,6 +1184,7 @@ export const rule = createRule<Options, MessageIds>({
             module: source,
             node,
             variables,
+            chain,
           });
         }
       },
@@ -850,21 +1224,14 @@ export const rule = createRule<Options, MessageIds>({
               module: requireSource,
             });
           }
-          return;
-        }
-
-        // Check for server function calls
-        if (!checkServerFunctions) {
-          return;
         }
+      },
 
-        const serverFnCall = findServerFunctionCall(node);
-        if (serverFnCall) {
-          // Collect all callbacks from this call chain
-          const callbacks = extractCallbacksFromChain(node);
-          for (const callback of callbacks) {
-            serverFunctionScopes.add(callback);
-          }
+      // Collect dynamic imports with a static specifier for reporting in Program:exit
+      ImportExpression(node) {
+        const source = getDynamicImportSource(node);
+        if (source && isServerOnlyModule(source)) {
+          dynamicImportViolations.push({ node, module: source });
         }
       },
 
@@ -877,9 +1244,14 @@ export const rule = createRule<Options, MessageIds>({
           return;
         }
 
-        if (typeof source === 'string' && isServerOnlyModule(source)) {
+        if (typeof source !== 'string') {
+          return;
+        }
+
+        const chain = getReexportChain(source);
+        if (chain !== undefined) {
           // Collect for reporting in Program:exit
-          reexportViolations.push({ node: node.source, module: source });
+          reexportViolations.push({ node: node.source, module: source, chain });
         }
       },
 
@@ -887,8 +1259,7 @@ export const rule = createRule<Options, MessageIds>({
         if (!node.source) return;
         const source = node.source.value;
 
-        // Skip if not a server-only module
-        if (typeof source !== 'string' || !isServerOnlyModule(source)) {
+        if (typeof source !== 'string') {
           return;
         }
 
@@ -897,40 +1268,65 @@ export const rule = createRule<Options, MessageIds>({
           return;
         }
 
+        // Skip if not a server-only module, or a local module that leads to one
+        const chain = getReexportChain(source);
+        if (chain === undefined) {
+          return;
+        }
+
         // Collect for reporting in Program:exit
-        reexportViolations.push({ node: node.source, module: source });
+        reexportViolations.push({ node: node.source, module: source, chain });
       },
 
       // Final analysis at end of file
       'Program:exit'() {
-        // Skip all violations if file has server-only marker
-        if (hasServerOnlyImport) {
+        // Skip all violations if file has server-only marker. A 'use client'
+        // file stays client code; the conflicting marker is reported separately.
+        if (hasServerOnlyImport && !hasUseClientDirective(sourceCode)) {
           return;
         }
 
-        // Report side-effect import violations (import 'fs')
-        for (const { node, module } of sideEffectImportViolations) {
+        // Report Node.js globals (Buffer, __dirname, process.cwd) outside server scopes
+        for (const { node, name } of findNodeGlobalReferences(sourceCode, allowedNodeGlobals)) {
+          if (!isInsideServerCode(node)) {
+            context.report({
+              node,
+              messageId: 'nodeGlobalInClient',
+              data: { name },
+              suggest: createServerOnlyMarkerSuggestion(sourceCode),
+            });
+          }
+        }
+
+        // Report server-marked local modules; the build fails on the import
+        // itself, so server scopes don't matter
+        for (const { node, module, marker } of serverMarkedImports) {
           context.report({
             node,
-            messageId: 'serverOnlyImport',
-            data: { module },
-            suggest: createSideEffectImportSuggestions(module, sourceCode),
+            messageId: 'serverMarkedModuleImport',
+            data: { module, marker },
+            suggest: createImportSuggestions(sourceCode),
           });
         }
 
-        // Report re-export violations
-        for (const { node, module } of reexportViolations) {
-          context.report({
+        // Report side-effect import violations (import 'fs')
+        for (const { node, module, chain } of sideEffectImportViolations) {
+          reportServerOnlyImport(
             node,
-            messageId: 'serverOnlyImport',
-            data: { module },
-            suggest: createReexportSuggestions(sourceCode),
-          });
+            module,
+            chain,
+            createSideEffectImportSuggestions(module, sourceCode)
+          );
+        }
+
+        // Report re-export violations
+        for (const { node, module, chain } of reexportViolations) {
+          reportServerOnlyImport(node, module, chain, createReexportSuggestions(sourceCode));
         }
 
         // Report bare require violations (no variable declaration) that are outside server scopes
         for (const violation of bareRequireViolations) {
-          if (!isInsideServerScope(violation.node)) {
+          if (!isInsideServerCode(violation.node)) {
             context.report({
               node: violation.node,
               messageId: 'serverOnlyRequire',
@@ -940,11 +1336,23 @@ export const rule = createRule<Options, MessageIds>({
           }
         }
 
+        // Report dynamic imports that are outside server scopes
+        for (const violation of dynamicImportViolations) {
+          if (!isInsideServerCode(violation.node)) {
+            context.report({
+              node: violation.node.source,
+              messageId: 'serverOnlyDynamicImport',
+              data: { module: violation.module },
+              suggest: createServerOnlyMarkerSuggestion(sourceCode),
+            });
+          }
+        }
+
         // Check each server-only require and ensure all usages stay inside server scopes
         for (const { module, node, variables } of serverOnlyRequires) {
-          // If the require() call itself is inside a server scope, it's safe
+          // If the require() call itself is inside server code, it's safe
           // (the variable is scoped to the server callback and can't escape)
-          if (isInsideServerScope(node)) {
+          if (isInsideServerCode(node)) {
             continue;
           }
 
@@ -966,7 +1374,7 @@ export const rule = createRule<Options, MessageIds>({
             }
 
             const hasClientUsage = valueReferences.some((reference) => {
-              return !isInsideServerScope(reference.identifier);
+              return !serverScopes.isInsideServerScope(reference.identifier);
             });
 
             if (hasClientUsage) {
@@ -986,7 +1394,7 @@ export const rule = createRule<Options, MessageIds>({
         }
 
         // Check each server-only import and ensure all usages stay inside server scopes
-        for (const { module, node, variables } of serverOnlyImports) {
+        for (const { module, node, variables, chain } of serverOnlyImports) {
           let hasViolation = false;
 
           for (const variable of variables) {
@@ -1005,7 +1413,7 @@ export const rule = createRule<Options, MessageIds>({
             }
 
             const hasClientUsage = valueReferences.some((reference) => {
-              return !isInsideServerScope(reference.identifier);
+              return !serverScopes.isInsideServerScope(reference.identifier);
             });
 
             if (hasClientUsage) {
@@ -1015,19 +1423,26 @@ export const rule = createRule<Options, MessageIds>({
           }
 
           if (hasViolation) {
-            context.report({
-              node: node.source,
-              messageId: 'serverOnlyImport',
-              data: { module },
-              suggest: createImportSuggestions(sourceCode),
-            });
+            reportServerOnlyImport(
+              node.source,
+              module,
+              chain,
+              createImportSuggestions(sourceCode)
+            );
           }
         }
       },
-    };
+    });
   },
 });
 
+export type { ServerFunctionSource } from './server-scopes';
+export type { PrivateEnvRuleOptions } from './no-private-env-in-client';
+export type { EdgeRuleOptions } from './no-node-in-edge';
+export type { BrowserApiRuleOptions } from './no-browser-apis-in-server';
+export type { ServerComponentRuleOptions } from './no-client-apis-in-server-components';
+export type { AsyncServerComponentRuleOptions } from './no-async-server-component-in-client';
+
 // Re-export framework detection utilities
 export {
   detectFramework,
@@ -1043,6 +1458,11 @@ import { FRAMEWORK_DEFAULTS } from './framework-detection';
 const plugin = {
   rules: {
     'no-server-imports': rule,
+    'no-private-env-in-client': noPrivateEnvInClient,
+    'no-node-in-edge': noNodeInEdge,
+    'no-browser-apis-in-server': noBrowserApisInServer,
+    'no-client-apis-in-server-components': noClientApisInServerComponents,
+    'no-async-server-component-in-client': noAsyncServerComponentInClient,
   },
   configs: {
     /**
@@ -1075,7 +1495,8 @@ const plugin = {
 
     /**
      * Astro optimized configuration.
-     * Best for Astro projects with islands architecture.
+     * Best for Astro projects with islands architecture: frontmatter is server
+     * code; client scripts and hydrated islands are checked.
      */
     'recommended-astro': {
       plugins: ['no-server-imports'],
@@ -1085,6 +1506,7 @@ const plugin = {
           {
             clientFilePatterns: FRAMEWORK_DEFAULTS.astro.clientFilePatterns,
             serverFilePatterns: FRAMEWORK_DEFAULTS.astro.serverFilePatterns,
+            astroAware: true,
           },
         ],
       },
@@ -1102,6 +1524,7 @@ const plugin = {
           {
             clientFilePatterns: FRAMEWORK_DEFAULTS.sveltekit.clientFilePatterns,
             serverFilePatterns: FRAMEWORK_DEFAULTS.sveltekit.serverFilePatterns,
+            serverModules: FRAMEWORK_DEFAULTS.sveltekit.serverModules,
           },
         ],
       },
@@ -1125,6 +1548,83 @@ const plugin = {
         ],
       },
     },
+
+    /**
+     * Nuxt optimized configuration.
+     * Best for Nuxt projects linting .vue files with vue-eslint-parser.
+     */
+    'recommended-nuxt': {
+      plugins: ['no-server-imports'],
+      rules: {
+        'no-server-imports/no-server-imports': [
+          'error',
+          {
+            clientFilePatterns: FRAMEWORK_DEFAULTS.nuxt.clientFilePatterns,
+            serverFilePatterns: FRAMEWORK_DEFAULTS.nuxt.serverFilePatterns,
+          },
+        ],
+      },
+    },
+
+    /**
+     * SolidStart optimized configuration.
+     * Only functions with a "use server" directive are server scopes:
+     * query() and action() callbacks from @solidjs/router run in the browser
+     * unless they start with "use server" themselves.
+     */
+    'recommended-solid-start': {
+      plugins: ['no-server-imports'],
+      rules: {
+        'no-server-imports/no-server-imports': [
+          'error',
+          {
+            clientFilePatterns: FRAMEWORK_DEFAULTS['solid-start'].clientFilePatterns,
+            serverFilePatterns: FRAMEWORK_DEFAULTS['solid-start'].serverFilePatterns,
+            serverFunctionNames: [],
+          },
+        ],
+      },
+    },
+
+    /**
+     * Qwik City optimized configuration.
+     * routeLoader$/routeAction$/globalAction$/server$ from @builder.io/qwik-city
+     * and onGet/onPost/... request handler exports are server scopes.
+     */
+    'recommended-qwik': {
+      plugins: ['no-server-imports'],
+      rules: {
+        'no-server-imports/no-server-imports': [
+          'error',
+          {
+            clientFilePatterns: FRAMEWORK_DEFAULTS.qwik.clientFilePatterns,
+            serverFilePatterns: FRAMEWORK_DEFAULTS.qwik.serverFilePatterns,
+            checkServerFunctions: true,
+            serverFunctionNames: QWIK_CITY_SERVER_FUNCTIONS,
+            serverExportNames: QWIK_CITY_SERVER_EXPORTS,
+          },
+        ],
+      },
+    },
+
+    /**
+     * React Router v7 framework mode (and Remix) optimized configuration.
+     * Route loader/action/headers exports and *.server modules are server-only.
+     */
+    'recommended-react-router': {
+      plugins: ['no-server-imports'],
+      rules: {
+        'no-server-imports/no-server-imports': [
+          'error',
+          {
+            clientFilePatterns: FRAMEWORK_DEFAULTS['react-router'].clientFilePatterns,
+            serverFilePatterns: FRAMEWORK_DEFAULTS['react-router'].serverFilePatterns,
+            serverExportNames: REACT_ROUTER_SERVER_EXPORTS,
+            dotServerModules: true,
+          },
+        ],
+      },
+    },
   },
   meta: {
     name: 'eslint-plugin-no-server-imports',
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  isRelativeSpecifier,
+  resolveLocalImport,
+  resolveAliasedImport,
+  resolveSvelteKitLib,
+  clearLocalImportCache,
+} from './local-imports';
+
+describe('local-imports', () => {
+  let tempDir: string;
+
+  /** Writes a file under the temp project, creating parent directories */
+  function write(relativePath: string, content = ''): string {
+    const filePath = path.join(tempDir, relativePath);
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content);
+    return filePath.replaceAll('\\', '/');
+  }
+
+  beforeEach(() => {
+    // Create a unique temp directory for each test
+    tempDir = path.join(tmpdir(), `eslint-local-imports-${Date.now()}`);
+    mkdirSync(tempDir, { recursive: true });
+    clearLocalImportCache();
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    clearLocalImportCache();
+  });
+
+  describe('isRelativeSpecifier', () => {
+    it('recognises ./ and ../ specifiers', () => {
+      expect(isRelativeSpecifier('./db')).toBe(true);
+      expect(isRelativeSpecifier('../lib/db')).toBe(true);
+      expect(isRelativeSpecifier('.')).toBe(true);
+    });
+
+    it('rejects packages and aliases', () => {
+      expect(isRelativeSpecifier('pg')).toBe(false);
+      expect(isRelativeSpecifier('@/lib/db')).toBe(false);
+      expect(isRelativeSpecifier('#db')).toBe(false);
+    });
+  });
+
+  describe('resolveLocalImport', () => {
+    it('resolves a specifier without an extension', () => {
+      const target = write('src/lib/db.ts');
+      const from = path.join(tempDir, 'src/components/Users.tsx');
+
+      expect(resolveLocalImport('../lib/db', from)).toBe(target);
+    });
+
+    it('resolves a .js specifier to its .ts source', () => {
+      const target = write('src/lib/db.ts');
+      const from = path.join(tempDir, 'src/components/Users.tsx');
+
+      expect(resolveLocalImport('../lib/db.js', from)).toBe(target);
+    });
+
+    it('resolves a directory to its index file', () => {
+      const target = write('src/lib/logging/index.ts');
+      const from = path.join(tempDir, 'src/components/Logger.tsx');
+
+      expect(resolveLocalImport('../lib/logging', from)).toBe(target);
+    });
+
+    it('returns null for missing files and non-relative specifiers', () => {
+      const from = path.join(tempDir, 'src/components/Users.tsx');
+
+      expect(resolveLocalImport('../lib/missing', from)).toBeNull();
+      expect(resolveLocalImport('pg', from)).toBeNull();
+    });
+  });
+
+  describe('resolveAliasedImport', () => {
+    it('resolves tsconfig paths relative to the tsconfig', () => {
+      write('tsconfig.json', JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }));
+      const target = write('src/server/db.ts');
+
+      expect(resolveAliasedImport('@/server/db', path.join(tempDir, 'src/app/page.tsx'))).toBe(target);
+    });
+
+    it('resolves tsconfig paths relative to baseUrl', () => {
+      write(
+        'tsconfig.json',
+        JSON.stringify({ compilerOptions: { baseUrl: 'src', paths: { '~/*': ['*'] } } })
+      );
+      const target = write('src/lib/db.ts');
+
+      expect(resolveAliasedImport('~/lib/db', path.join(tempDir, 'src/app/page.tsx'))).toBe(target);
+    });
+
+    it('reads tsconfig files with comments and trailing commas', () => {
+      write(
+        'tsconfig.json',
+        `{
+  // Path aliases
+  "compilerOptions": {
+    /* "baseUrl": "." */
+    "paths": { "@lib/*": ["./lib/*",], },
+  },
+}`
+      );
+      const target = write('lib/db.ts');
+
+      expect(resolveAliasedImport('@lib/db', path.join(tempDir, 'app/page.tsx'))).toBe(target);
+    });
+
+    it('follows relative tsconfig extends to find paths', () => {
+      write('tsconfig.base.json', JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }));
+      write('tsconfig.json', JSON.stringify({ extends: './tsconfig.base' }));
+      const target = write('src/server/db.ts');
+
+      expect(resolveAliasedImport('@/server/db', path.join(tempDir, 'src/app/page.tsx'))).toBe(target);
+    });
+
+    it('prefers an exact paths key over a wildcard', () => {
+      write(
+        'tsconfig.json',
+        JSON.stringify({
+          compilerOptions: { paths: { '@/db': ['./src/server/db.ts'], '@/*': ['./src/*'] } },
+        })
+      );
+      const target = write('src/server/db.ts');
+      write('src/db.ts');
+
+      expect(resolveAliasedImport('@/db', path.join(tempDir, 'src/app/page.tsx'))).toBe(target);
+    });
+
+    it('resolves package.json imports with wildcards', () => {
+      write('package.json', JSON.stringify({ imports: { '#db/*': './src/db/*.ts' } }));
+      const target = write('src/db/client.ts');
+
+      expect(resolveAliasedImport('#db/client', path.join(tempDir, 'src/app/page.tsx'))).toBe(target);
+    });
+
+    it('prefers the browser condition for package.json imports', () => {
+      write(
+        'package.json',
+        JSON.stringify({
+          imports: { '#config': { browser: './src/config.browser.ts', default: './src/config.ts' } },
+        })
+      );
+      const target = write('src/config.browser.ts');
+      write('src/config.ts');
+
+      expect(resolveAliasedImport('#config', path.join(tempDir, 'src/app/page.tsx'))).toBe(target);
+    });
+
+    it('ignores package.json imports that point at another package', () => {
+      write('package.json', JSON.stringify({ imports: { '#dep': 'some-package' } }));
+
+      expect(resolveAliasedImport('#dep', path.join(tempDir, 'src/app/page.tsx'))).toBeNull();
+    });
+
+    it('returns null for specifiers that match no alias', () => {
+      write('tsconfig.json', JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }));
+
+      expect(resolveAliasedImport('react', path.join(tempDir, 'src/app/page.tsx'))).toBeNull();
+      expect(resolveAliasedImport('./db', path.join(tempDir, 'src/app/page.tsx'))).toBeNull();
+    });
+  });
+
+  describe('resolveSvelteKitLib', () => {
+    it('defaults $lib to src/lib next to svelte.config.js', () => {
+      write('svelte.config.js', 'export default { kit: {} };');
+
+      expect(resolveSvelteKitLib(path.join(tempDir, 'src/routes/+page.ts'))).toBe(
+        path.join(tempDir, 'src/lib').replaceAll('\\', '/')
+      );
+    });
+
+    it('reads kit.files.lib from svelte.config.js', () => {
+      write(
+        'svelte.config.js',
+        "export default { kit: { alias: {}, files: { routes: 'app/routes', lib: 'app/lib' } } };"
+      );
+
+      expect(resolveSvelteKitLib(path.join(tempDir, 'app/routes/+page.ts'))).toBe(
+        path.join(tempDir, 'app/lib').replaceAll('\\', '/')
+      );
+    });
+
+    it('returns null outside a SvelteKit project', () => {
+      write('package.json', '{}');
+
+      expect(resolveSvelteKitLib(path.join(tempDir, 'src/routes/+page.ts'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,600 @@
+/**
+ * Local Import Resolution
+ * =======================
+ * Resolves relative and aliased import specifiers (tsconfig `paths`,
+ * package.json `imports`) to files on disk and parses those files so the
+ * no-server-imports rule can follow local modules to the server-only modules
+ * they pull in.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+
+/** Extensions tried, in order, when a specifier omits one */
+const RESOLVABLE_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+/** TypeScript ESM imports name the emitted file ('./db.js'), not the source ('./db.ts') */
+const EMITTED_TO_SOURCE_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * Checks if an import specifier is relative (./ or ../)
+ */
+export function isRelativeSpecifier(specifier: string): boolean {
+  return (
+    specifier === '.' ||
+    specifier === '..' ||
+    specifier.startsWith('./') ||
+    specifier.startsWith('../')
+  );
+}
+
+/**
+ * Determines if a path is an existing file
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a path without a known extension to a file, trying the exact path,
+ * the path with each resolvable extension, and a directory index file.
+ */
+export function resolveFilePath(basePath: string): string | null {
+  if (isFile(basePath)) {
+    return basePath;
+  }
+
+  const extension = path.extname(basePath);
+  const sourceExtensions = EMITTED_TO_SOURCE_EXTENSIONS[extension];
+  if (sourceExtensions) {
+    const withoutExtension = basePath.slice(0, -extension.length);
+    for (const sourceExtension of sourceExtensions) {
+      if (isFile(`${withoutExtension}${sourceExtension}`)) {
+        return `${withoutExtension}${sourceExtension}`;
+      }
+    }
+  }
+
+  for (const ext of RESOLVABLE_EXTENSIONS) {
+    if (isFile(`${basePath}${ext}`)) {
+      return `${basePath}${ext}`;
+    }
+  }
+  for (const ext of RESOLVABLE_EXTENSIONS) {
+    const indexPath = path.join(basePath, `index${ext}`);
+    if (isFile(indexPath)) {
+      return indexPath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a local import specifier to an absolute file path.
+ *
+ * @param specifier - The import specifier as written (e.g. '../lib/db')
+ * @param fromFile - Absolute path of the importing file
+ * @returns The resolved file path (POSIX separators), or null if it can't be resolved
+ */
+export function resolveLocalImport(specifier: string, fromFile: string): string | null {
+  if (!isRelativeSpecifier(specifier)) {
+    return null;
+  }
+  const resolved = resolveFilePath(path.resolve(path.dirname(fromFile), specifier));
+  return resolved ? resolved.replaceAll('\\', '/') : null;
+}
+
+/** Path aliases from the nearest tsconfig.json, resolved to absolute paths */
+interface TsconfigPaths {
+  /** Directory `paths` targets are resolved from (baseUrl, or the tsconfig's directory) */
+  baseDir: string;
+  paths: Record<string, string[]>;
+}
+
+/** Subpath imports from the nearest package.json */
+interface PackageImports {
+  packageDir: string;
+  imports: Record<string, unknown>;
+}
+
+/** Conditions tried, in order, for conditional package.json `imports` targets (client bundles use 'browser') */
+const IMPORT_CONDITIONS = ['browser', 'import', 'module', 'default', 'require', 'node'];
+
+// Cache tsconfig and package.json lookups by directory (config files rarely change mid-session)
+const tsconfigPathsCache = new Map<string, TsconfigPaths | null>();
+const packageImportsCache = new Map<string, PackageImports | null>();
+
+/**
+ * Parses JSON with comments and trailing commas (tsconfig.json syntax)
+ */
+function parseJsonc(text: string): unknown {
+  let output = '';
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '"') {
+      // Copy string literals verbatim, honouring escapes
+      let end = index + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      output += text.slice(index, end + 1);
+      index = end + 1;
+    } else if (char === '/' && text[index + 1] === '/') {
+      const end = text.indexOf('\n', index);
+      index = end === -1 ? text.length : end;
+    } else if (char === '/' && text[index + 1] === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end === -1 ? text.length : end + 2;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(index + 1))) {
+      index++;
+    } else {
+      output += char;
+      index++;
+    }
+  }
+  return JSON.parse(output);
+}
+
+/**
+ * Reads and parses a JSON(C) file, returning null on any error
+ */
+function readJsonFile(filePath: string): Record<string, unknown> | null {
+  try {
+    const parsed = parseJsonc(readFileSync(filePath, 'utf8'));
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the nearest file with the given name, walking up from a directory
+ */
+function findUp(startDir: string, fileName: string): string | null {
+  let current = startDir;
+  while (true) {
+    const candidate = path.join(current, fileName);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Loads `compilerOptions.paths` from a tsconfig, following relative `extends`
+ * until a config that declares `paths` is found.
+ */
+function loadTsconfigPaths(tsconfigPath: string, seen = new Set<string>()): TsconfigPaths | null {
+  if (seen.has(tsconfigPath)) {
+    return null;
+  }
+  seen.add(tsconfigPath);
+
+  const config = readJsonFile(tsconfigPath);
+  if (!config) {
+    return null;
+  }
+
+  const configDir = path.dirname(tsconfigPath);
+  const compilerOptions = (config.compilerOptions ?? {}) as {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+  };
+  if (compilerOptions.paths) {
+    return {
+      baseDir: compilerOptions.baseUrl
+        ? path.resolve(configDir, compilerOptions.baseUrl)
+        : configDir,
+      paths: compilerOptions.paths,
+    };
+  }
+
+  if (typeof config.extends === 'string' && isRelativeSpecifier(config.extends)) {
+    const basePath = path.resolve(configDir, config.extends);
+    return loadTsconfigPaths(basePath.endsWith('.json') ? basePath : `${basePath}.json`, seen);
+  }
+
+  return null;
+}
+
+/**
+ * Gets the path aliases that apply to a file (from the nearest tsconfig.json)
+ */
+function getTsconfigPaths(fromDir: string): TsconfigPaths | null {
+  const cached = tsconfigPathsCache.get(fromDir);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const tsconfigPath = findUp(fromDir, 'tsconfig.json');
+  const result = tsconfigPath ? loadTsconfigPaths(tsconfigPath) : null;
+  tsconfigPathsCache.set(fromDir, result);
+  return result;
+}
+
+/**
+ * Gets the subpath imports that apply to a file (from the nearest package.json)
+ */
+function getPackageImports(fromDir: string): PackageImports | null {
+  const cached = packageImportsCache.get(fromDir);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const packageJsonPath = findUp(fromDir, 'package.json');
+  const pkg = packageJsonPath ? readJsonFile(packageJsonPath) : null;
+  const result =
+    packageJsonPath && pkg?.imports && typeof pkg.imports === 'object'
+      ? {
+          packageDir: path.dirname(packageJsonPath),
+          imports: pkg.imports as Record<string, unknown>,
+        }
+      : null;
+  packageImportsCache.set(fromDir, result);
+  return result;
+}
+
+/**
+ * Matches a specifier against alias patterns with at most one `*` wildcard.
+ * An exact key wins; otherwise the pattern with the longest prefix does.
+ *
+ * @returns The matched key and the text captured by `*` (empty for exact keys)
+ */
+function matchAliasPattern(
+  specifier: string,
+  patterns: string[]
+): { key: string; captured: string } | null {
+  if (patterns.includes(specifier) && !specifier.includes('*')) {
+    return { key: specifier, captured: '' };
+  }
+
+  let best: { key: string; captured: string } | null = null;
+  let bestPrefixLength = -1;
+  for (const key of patterns) {
+    const starIndex = key.indexOf('*');
+    if (starIndex === -1) continue;
+    const prefix = key.slice(0, starIndex);
+    const suffix = key.slice(starIndex + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      prefix.length > bestPrefixLength
+    ) {
+      best = {
+        key,
+        captured: specifier.slice(prefix.length, specifier.length - suffix.length),
+      };
+      bestPrefixLength = prefix.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Picks a path from a package.json `imports` target, which may be a string,
+ * a conditional object, or an array of fallbacks
+ */
+function selectImportTarget(target: unknown): string | null {
+  if (typeof target === 'string') {
+    return target;
+  }
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const selected = selectImportTarget(item);
+      if (selected) return selected;
+    }
+    return null;
+  }
+  if (target && typeof target === 'object') {
+    const conditions = new Map(Object.entries(target));
+    for (const condition of IMPORT_CONDITIONS) {
+      const selected = selectImportTarget(conditions.get(condition));
+      if (selected) return selected;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a tsconfig `paths` alias (e.g. '@/server/db')
+ */
+function resolveTsconfigAlias(specifier: string, fromDir: string): string | null {
+  const tsconfigPaths = getTsconfigPaths(fromDir);
+  if (!tsconfigPaths) {
+    return null;
+  }
+  const match = matchAliasPattern(specifier, Object.keys(tsconfigPaths.paths));
+  if (!match) {
+    return null;
+  }
+  const targets = tsconfigPaths.paths[match.key];
+  for (const target of targets) {
+    const resolved = resolveFilePath(
+      path.resolve(tsconfigPaths.baseDir, target.split('*').join(match.captured))
+    );
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a package.json subpath import (e.g. '#db/client')
+ */
+function resolvePackageImport(specifier: string, fromDir: string): string | null {
+  const packageImports = getPackageImports(fromDir);
+  if (!packageImports) {
+    return null;
+  }
+  const match = matchAliasPattern(specifier, Object.keys(packageImports.imports));
+  if (!match) {
+    return null;
+  }
+  const target = selectImportTarget(packageImports.imports[match.key]);
+  // Targets that name another package ('#dep': 'some-package') are not local files
+  if (!target || !isRelativeSpecifier(target)) {
+    return null;
+  }
+  return resolveFilePath(
+    path.resolve(packageImports.packageDir, target.split('*').join(match.captured))
+  );
+}
+
+/**
+ * Resolves an aliased import specifier to an absolute file path, using
+ * package.json `imports` for '#' specifiers and tsconfig `paths` otherwise.
+ *
+ * @param specifier - The import specifier as written (e.g. '@/server/db' or '#db/client')
+ * @param fromFile - Absolute path of the importing file
+ * @returns The resolved file path (POSIX separators), or null if it isn't a resolvable alias
+ */
+export function resolveAliasedImport(specifier: string, fromFile: string): string | null {
+  if (isRelativeSpecifier(specifier) || path.isAbsolute(specifier)) {
+    return null;
+  }
+  const fromDir = path.dirname(fromFile);
+  const resolved = specifier.startsWith('#')
+    ? resolvePackageImport(specifier, fromDir)
+    : resolveTsconfigAlias(specifier, fromDir);
+  return resolved ? resolved.replaceAll('\\', '/') : null;
+}
+
+/** Single-file component formats whose imports live in `<script>` blocks */
+const COMPONENT_EXTENSIONS = new Set(['.vue', '.svelte']);
+
+const SCRIPT_BLOCK_PATTERN = /<script\b[^>]*>([\s\S]*?)<\/script>/g;
+
+/**
+ * Gets the parser for plain script code. Component parsers (vue-eslint-parser,
+ * astro-eslint-parser, svelte-eslint-parser) take the script parser as
+ * `parserOptions.parser`; it's used directly so a followed `.tsx` island or a
+ * component's `<script>` is parsed as script, not as a component.
+ */
+function getScriptParser(
+  languageOptions: TSESLint.FlatConfig.LanguageOptions
+): TSESLint.FlatConfig.LanguageOptions['parser'] {
+  const innerParser: unknown = languageOptions.parserOptions?.parser;
+  if (
+    innerParser &&
+    typeof innerParser === 'object' &&
+    ('parseForESLint' in innerParser || 'parse' in innerParser)
+  ) {
+    return innerParser as TSESLint.FlatConfig.LanguageOptions['parser'];
+  }
+  return languageOptions.parser;
+}
+
+// Cache parsed modules by path; entries are invalidated when the file changes
+const parsedModuleCache = new Map<string, { mtimeMs: number; ast: TSESTree.Program | null }>();
+
+/**
+ * Parses a module on disk with the parser configured for the current lint run.
+ * Type-aware parser options are dropped: only the syntax is needed, and
+ * building a program for every followed file would be slow. For `.vue` and
+ * `.svelte` files only the `<script>` blocks are parsed.
+ *
+ * @returns The AST, or null if the file can't be read or parsed
+ */
+export function parseModule(
+  filePath: string,
+  languageOptions: TSESLint.FlatConfig.LanguageOptions
+): TSESTree.Program | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(filePath).mtimeMs;
+  } catch {
+    return null;
+  }
+
+  const cached = parsedModuleCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.ast;
+  }
+
+  let ast: TSESTree.Program | null = null;
+  try {
+    const extension = path.extname(filePath);
+    const source = readFileSync(filePath, 'utf8');
+    const code = COMPONENT_EXTENSIONS.has(extension)
+      ? Array.from(source.matchAll(SCRIPT_BLOCK_PATTERN), (match) => match[1]).join('\n')
+      : source;
+    const parserOptions = {
+      ...languageOptions.parserOptions,
+      ecmaVersion: languageOptions.ecmaVersion ?? 'latest',
+      sourceType: 'module',
+      filePath,
+      project: undefined,
+      projectService: undefined,
+      loc: true,
+      range: true,
+    };
+    const parser =
+      COMPONENT_EXTENSIONS.has(extension) || RESOLVABLE_EXTENSIONS.has(extension)
+        ? getScriptParser(languageOptions)
+        : languageOptions.parser;
+    if (parser && 'parseForESLint' in parser) {
+      ast = parser.parseForESLint(code, parserOptions).ast as TSESTree.Program;
+    } else if (parser && 'parse' in parser) {
+      ast = parser.parse(code, parserOptions) as TSESTree.Program;
+    }
+  } catch {
+    // Unparseable files are treated as having no imports
+    ast = null;
+  }
+
+  parsedModuleCache.set(filePath, { mtimeMs, ast });
+  return ast;
+}
+
+const SVELTE_CONFIG_FILES = ['svelte.config.js', 'svelte.config.mjs', 'svelte.config.ts'];
+
+// `kit: { files: { lib: 'app/lib' } }` in svelte.config.js
+const KIT_FILES_LIB_PATTERN = /\bfiles\s*:\s*\{[^}]*?\blib\s*:\s*['"`]([^'"`]+)['"`]/;
+
+// Cache the SvelteKit lib directory by the directory of the importing file
+const svelteKitLibCache = new Map<string, string | null>();
+
+/**
+ * Gets the directory SvelteKit's `$lib` alias points to for a file: the
+ * `kit.files.lib` value from the nearest svelte.config.* (read as text, since
+ * the config is a module), or `src/lib` next to it.
+ *
+ * @returns The absolute POSIX path, or null outside a SvelteKit project
+ */
+export function resolveSvelteKitLib(fromFile: string): string | null {
+  const fromDir = path.dirname(fromFile);
+  const cached = svelteKitLibCache.get(fromDir);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let result: string | null = null;
+  for (const configFile of SVELTE_CONFIG_FILES) {
+    const configPath = findUp(fromDir, configFile);
+    if (!configPath) {
+      continue;
+    }
+    let lib = 'src/lib';
+    try {
+      lib = KIT_FILES_LIB_PATTERN.exec(readFileSync(configPath, 'utf8'))?.[1] ?? lib;
+    } catch {
+      // Unreadable config: fall back to the default
+    }
+    result = path.resolve(path.dirname(configPath), lib).replaceAll('\\', '/');
+    break;
+  }
+
+  svelteKitLibCache.set(fromDir, result);
+  return result;
+}
+
+/** A function a module can export */
+export type ExportedFunction =
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression
+  | TSESTree.ArrowFunctionExpression;
+
+/**
+ * Checks if a node is a function that can be exported
+ */
+function isExportedFunction(node: TSESTree.Node | null | undefined): node is ExportedFunction {
+  return (
+    node?.type === AST_NODE_TYPES.FunctionDeclaration ||
+    node?.type === AST_NODE_TYPES.FunctionExpression ||
+    node?.type === AST_NODE_TYPES.ArrowFunctionExpression
+  );
+}
+
+/**
+ * Gets the functions a parsed module exports, by exported name (`default`
+ * for the default export): `export function`, `export const x = () => {}`,
+ * `export default function`, and `export { x as y }` for local functions
+ */
+export function getExportedFunctions(ast: TSESTree.Program): Map<string, ExportedFunction> {
+  // Top-level functions by local name, for export lists and `export default name`
+  const localFunctions = new Map<string, ExportedFunction>();
+  for (const statement of ast.body) {
+    const declaration =
+      statement.type === AST_NODE_TYPES.ExportNamedDeclaration ? statement.declaration : statement;
+    if (declaration?.type === AST_NODE_TYPES.FunctionDeclaration && declaration.id) {
+      localFunctions.set(declaration.id.name, declaration);
+    }
+    if (declaration?.type === AST_NODE_TYPES.VariableDeclaration) {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === AST_NODE_TYPES.Identifier && isExportedFunction(declarator.init)) {
+          localFunctions.set(declarator.id.name, declarator.init);
+        }
+      }
+    }
+  }
+
+  const exported = new Map<string, ExportedFunction>();
+  for (const statement of ast.body) {
+    if (statement.type === AST_NODE_TYPES.ExportDefaultDeclaration) {
+      const { declaration } = statement;
+      const target =
+        declaration.type === AST_NODE_TYPES.Identifier
+          ? localFunctions.get(declaration.name)
+          : declaration;
+      if (isExportedFunction(target)) {
+        exported.set('default', target);
+      }
+    }
+    if (statement.type !== AST_NODE_TYPES.ExportNamedDeclaration || statement.source) {
+      continue;
+    }
+    const { declaration } = statement;
+    if (declaration?.type === AST_NODE_TYPES.FunctionDeclaration && declaration.id) {
+      exported.set(declaration.id.name, declaration);
+    }
+    if (declaration?.type === AST_NODE_TYPES.VariableDeclaration) {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === AST_NODE_TYPES.Identifier && isExportedFunction(declarator.init)) {
+          exported.set(declarator.id.name, declarator.init);
+        }
+      }
+    }
+    for (const specifier of statement.specifiers) {
+      const local =
+        specifier.local.type === AST_NODE_TYPES.Identifier
+          ? localFunctions.get(specifier.local.name)
+          : undefined;
+      if (local) {
+        const name =
+          specifier.exported.type === AST_NODE_TYPES.Identifier
+            ? specifier.exported.name
+            : specifier.exported.value;
+        exported.set(name, local);
+      }
+    }
+  }
+  return exported;
+}
+
+/**
+ * Clears the parsed module and alias config caches (useful for testing)
+ */
+export function clearLocalImportCache(): void {
+  parsedModuleCache.clear();
+  tsconfigPathsCache.clear();
+  packageImportsCache.clear();
+  svelteKitLibCache.clear();
+}
@@ -0,0 +1,147 @@
+/**
+ * Module Matching
+ * ===============
+ * Reads import sources out of import declarations, `require()` and
+ * `import()` calls, and matches them against a module list plus Node.js
+ * built-ins. Shared by the rules that ban modules on one side of a runtime
+ * boundary.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESTree } from '@typescript-eslint/utils';
+import { getNodeBuiltinName, stripNodePrefix } from './node-builtins';
+
+/** Options for createModuleMatcher */
+export interface ModuleMatcherOptions {
+  /** Module names; each also matches its subpaths (`@prisma/client` matches `@prisma/client/query`) */
+  modules: string[];
+  /** Whether Node.js built-ins match (with or without `node:`) */
+  checkNodeBuiltins: boolean;
+  /** Built-ins that never match, along with their subpaths and `node:` forms */
+  safeBuiltins: string[];
+}
+
+/**
+ * Checks if an import declaration has any value (non-type) specifiers.
+ * Returns false if ALL specifiers are type-only imports.
+ */
+export function hasValueImportSpecifiers(node: TSESTree.ImportDeclaration): boolean {
+  // If the whole import is type-only, no value specifiers
+  if (node.importKind === 'type') {
+    return false;
+  }
+
+  // If no specifiers (side-effect import like `import 'module'`), it's a value import
+  if (node.specifiers.length === 0) {
+    return true;
+  }
+
+  // Check if ANY specifier is a value import (not type-only)
+  return node.specifiers.some((specifier) => {
+    // Default imports and namespace imports don't have importKind
+    if (specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier) {
+      return true; // Default imports are always value imports
+    }
+    if (specifier.type === AST_NODE_TYPES.ImportNamespaceSpecifier) {
+      return true; // Namespace imports are always value imports
+    }
+    // For named imports, check if it's a type import
+    if (specifier.type === AST_NODE_TYPES.ImportSpecifier) {
+      return specifier.importKind !== 'type';
+    }
+    return true;
+  });
+}
+
+/**
+ * Checks if an export declaration has any value (non-type) specifiers.
+ * Returns false if ALL specifiers are type-only exports.
+ */
+export function hasValueExportSpecifiers(node: TSESTree.ExportNamedDeclaration): boolean {
+  // If the whole export is type-only, no value specifiers
+  if (node.exportKind === 'type') {
+    return false;
+  }
+
+  // If no specifiers but has source (re-export), check the specifiers
+  if (node.specifiers.length === 0) {
+    return true; // `export * from 'module'` is a value export
+  }
+
+  // Check if ANY specifier is a value export (not type-only)
+  return node.specifiers.some((specifier) => {
+    return specifier.exportKind !== 'type';
+  });
+}
+
+/**
+ * Gets the module name from a require() call
+ */
+export function getRequireSource(node: TSESTree.CallExpression): string | null {
+  if (
+    node.callee.type === AST_NODE_TYPES.Identifier &&
+    node.callee.name === 'require' &&
+    node.arguments.length > 0
+  ) {
+    const arg = node.arguments[0];
+    if (arg.type === AST_NODE_TYPES.Literal && typeof arg.value === 'string') {
+      return arg.value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Gets the string value from an import() source: a string literal or a
+ * template literal without expressions (e.g. import(`fs`))
+ */
+export function getDynamicImportSource(node: TSESTree.ImportExpression): string | null {
+  const source = node.source;
+  if (source.type === AST_NODE_TYPES.Literal && typeof source.value === 'string') {
+    return source.value;
+  }
+  if (
+    source.type === AST_NODE_TYPES.TemplateLiteral &&
+    source.expressions.length === 0 &&
+    source.quasis.length === 1
+  ) {
+    return source.quasis[0].value.cooked;
+  }
+  return null;
+}
+
+/**
+ * Creates a matcher for import sources: an exact or subpath match against
+ * `modules`, or (with checkNodeBuiltins) any Node.js built-in that isn't
+ * listed in `safeBuiltins`
+ */
+export function createModuleMatcher(options: ModuleMatcherOptions): (source: string) => boolean {
+  const { modules, checkNodeBuiltins } = options;
+  // Create Set for O(1) exact module lookups
+  const moduleSet = new Set(modules);
+  const safeBuiltins = options.safeBuiltins.map((name) => stripNodePrefix(name));
+
+  /**
+   * Checks if a built-in (without `node:`) is listed in safeBuiltins,
+   * directly or as a subpath (`util/types` matches `util`)
+   */
+  function isSafeBuiltin(name: string): boolean {
+    return safeBuiltins.some((safe) => name === safe || name.startsWith(`${safe}/`));
+  }
+
+  return (source) => {
+    // O(1) check for exact match
+    if (moduleSet.has(source)) {
+      return true;
+    }
+    // Check for subpath imports (e.g., 'fs/promises' matches 'fs')
+    if (modules.some((mod) => source.startsWith(`${mod}/`))) {
+      return true;
+    }
+    if (!checkNodeBuiltins) {
+      return false;
+    }
+    const builtin = getNodeBuiltinName(source);
+    return builtin !== null && !isSafeBuiltin(builtin);
+  };
+}
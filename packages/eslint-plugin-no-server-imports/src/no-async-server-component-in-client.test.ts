@@ -0,0 +1,154 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { afterAll, describe, it } from 'vitest';
+import * as parser from '@typescript-eslint/parser';
+import plugin from './index';
+
+// Configure RuleTester to use Vitest's lifecycle
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser,
+    parserOptions: {
+      ecmaVersion: 2022,
+      sourceType: 'module',
+      ecmaFeatures: { jsx: true },
+    },
+  },
+});
+
+// On-disk project so imported modules can be resolved and parsed.
+// Created at load time because RuleTester cases are built before tests run.
+const fixtureRoot = mkdtempSync(path.join(tmpdir(), 'no-async-server-component-'));
+afterAll(() => {
+  rmSync(fixtureRoot, { recursive: true, force: true });
+});
+
+/** Writes a file under the fixture project */
+function writeFixture(relativePath: string, content: string): void {
+  const filePath = path.join(fixtureRoot, relativePath);
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content);
+}
+
+/** Gets the absolute path of a file in the fixture project */
+function fixturePath(relativePath: string): string {
+  return path.join(fixtureRoot, relativePath);
+}
+
+writeFixture('tsconfig.json', JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }));
+writeFixture(
+  'src/components/user-card.tsx',
+  "import { db } from '@/lib/db';\nexport default async function UserCard({ id }) {\n  const user = await db.user.find(id);\n  return <p>{user.name}</p>;\n}"
+);
+writeFixture(
+  'src/components/feed.tsx',
+  "export const Feed = async () => <ul />;\nasync function Sidebar() {\n  return <aside />;\n}\nexport { Sidebar as Aside };\nexport async function getPosts() {\n  return [];\n}\nexport function Header() {\n  return <header />;\n}"
+);
+writeFixture(
+  'src/components/client-list.tsx',
+  "'use client';\nexport default async function ClientList() {\n  return <ul />;\n}"
+);
+
+writeFixture(
+  'src/lib/fetch-user.ts',
+  "export default async function (id) {\n  return fetch(`/api/users/${id}`);\n}"
+);
+writeFixture(
+  'src/app/actions.ts',
+  "'use server';\nexport default async function SaveUser(data) {\n  await fetch('/api/users', { method: 'POST', body: data });\n}"
+);
+writeFixture(
+  'src/lib/mutations.ts',
+  "export async function DeletePost(id) {\n  'use server';\n  await fetch(`/api/posts/${id}`, { method: 'DELETE' });\n}"
+);
+writeFixture(
+  'src/components/banner.tsx',
+  "export default async function () {\n  const { text } = await fetch('/api/banner').then((res) => res.json());\n  return text ? <div>{text}</div> : null;\n}"
+);
+
+ruleTester.run(
+  'no-async-server-component-in-client - basic',
+  plugin.rules['no-async-server-component-in-client'],
+  {
+    valid: [
+      // Server Components can render async components
+      {
+        code: "import UserCard from '../components/user-card';\nexport default function Page() {\n  return <UserCard id=\"1\" />;\n}",
+        filename: fixturePath('src/app/page.tsx'),
+      },
+      // Sync components and async non-components
+      {
+        code: "'use client';\nimport { Header, getPosts } from '../components/feed';\nexport function Nav() {\n  return <Header onClick={getPosts} />;\n}",
+        filename: fixturePath('src/app/nav.tsx'),
+      },
+      // Modules with their own 'use client' are Client Components
+      {
+        code: "'use client';\nimport ClientList from '../components/client-list';\nexport function Shell() {\n  return <ClientList />;\n}",
+        filename: fixturePath('src/app/shell.tsx'),
+      },
+      // Type-only imports are erased
+      {
+        code: "'use client';\nimport type UserCard from '@/components/user-card';\nexport type Card = typeof UserCard;",
+        filename: fixturePath('src/app/types.tsx'),
+      },
+      // Ignored files
+      {
+        code: "'use client';\nimport UserCard from '../components/user-card';\nexport const card = UserCard;",
+        filename: fixturePath('src/app/legacy.tsx'),
+        options: [{ ignoreFiles: ['**/legacy.tsx'] }],
+      },
+      // Anonymous async default exports that don't return JSX aren't components
+      {
+        code: "'use client';\nimport fetchUser from '../lib/fetch-user';\nexport function useUser(id) {\n  return fetchUser(id);\n}",
+        filename: fixturePath('src/app/use-user.tsx'),
+      },
+      // 'use server' modules export Server Actions
+      {
+        code: "'use client';\nimport SaveUser from './actions';\nexport function Form() {\n  return <form action={SaveUser} />;\n}",
+        filename: fixturePath('src/app/form.tsx'),
+      },
+      // Functions with their own 'use server' are Server Actions
+      {
+        code: "'use client';\nimport { DeletePost } from '@/lib/mutations';\nexport function DeleteButton({ id }) {\n  return <button onClick={() => DeletePost(id)} />;\n}",
+        filename: fixturePath('src/app/delete-button.tsx'),
+      },
+    ],
+
+    invalid: [
+      // Default-exported async component - BLOCKED
+      {
+        code: "'use client';\nimport UserCard from '../components/user-card';\nexport function Profile() {\n  return <UserCard id=\"1\" />;\n}",
+        filename: fixturePath('src/app/profile.tsx'),
+        errors: [
+          {
+            messageId: 'asyncServerComponentImport',
+            data: { name: 'UserCard', module: '../components/user-card' },
+          },
+        ],
+      },
+      // Named, renamed and aliased exports - BLOCKED
+      {
+        code: "'use client';\nimport { Feed as Posts, Aside, Header } from '@/components/feed';\nexport function Layout() {\n  return <Header><Posts /><Aside /></Header>;\n}",
+        filename: fixturePath('src/app/layout-client.tsx'),
+        errors: [
+          { messageId: 'asyncServerComponentImport', data: { name: 'Posts', module: '@/components/feed' } },
+          { messageId: 'asyncServerComponentImport', data: { name: 'Aside', module: '@/components/feed' } },
+        ],
+      },
+      // Anonymous async default export that returns JSX - BLOCKED
+      {
+        code: "'use client';\nimport Banner from '../components/banner';\nexport function Header() {\n  return <Banner />;\n}",
+        filename: fixturePath('src/app/header.tsx'),
+        errors: [
+          { messageId: 'asyncServerComponentImport', data: { name: 'Banner', module: '../components/banner' } },
+        ],
+      },
+    ],
+  }
+);
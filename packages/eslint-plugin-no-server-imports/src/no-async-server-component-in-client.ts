@@ -0,0 +1,205 @@
+/**
+ * Rule: no-async-server-component-in-client
+ * =========================================
+ * Reports `'use client'` files that import an async function component from
+ * a module without `'use client'`. The import pulls the component into the
+ * client bundle, where async components can't render (a runtime error in
+ * the Next.js App Router). The fix is to render it in a Server Component and
+ * pass it to the Client Component as `children`.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+import picomatch from 'picomatch';
+import { createRule } from './create-rule';
+import { hasDirective, hasUseClientDirective } from './file-classification';
+import {
+  getExportedFunctions,
+  isRelativeSpecifier,
+  parseModule,
+  resolveAliasedImport,
+  resolveLocalImport,
+} from './local-imports';
+import type { ExportedFunction } from './local-imports';
+import { getImportedName, isUseServerFunction } from './server-scopes';
+
+/** Configuration options for the no-async-server-component-in-client rule */
+export interface AsyncServerComponentRuleOptions {
+  /** File patterns to completely ignore */
+  ignoreFiles?: string[];
+}
+
+type MessageIds = 'asyncServerComponentImport';
+type Options = [AsyncServerComponentRuleOptions?];
+
+/**
+ * Checks if an expression renders JSX, directly or from a branch of a
+ * conditional (`cond ? <A /> : <B />`, `cond && <A />`)
+ */
+function isJsxExpression(node: TSESTree.Expression | null | undefined): boolean {
+  switch (node?.type) {
+    case AST_NODE_TYPES.JSXElement:
+    case AST_NODE_TYPES.JSXFragment: {
+      return true;
+    }
+    case AST_NODE_TYPES.ConditionalExpression: {
+      return isJsxExpression(node.consequent) || isJsxExpression(node.alternate);
+    }
+    case AST_NODE_TYPES.LogicalExpression: {
+      return isJsxExpression(node.left) || isJsxExpression(node.right);
+    }
+    default: {
+      return false;
+    }
+  }
+}
+
+/**
+ * Checks if a statement returns JSX, following blocks and branches but not
+ * nested functions
+ */
+function returnsJsx(statement: TSESTree.Statement | null | undefined): boolean {
+  switch (statement?.type) {
+    case AST_NODE_TYPES.ReturnStatement: {
+      return isJsxExpression(statement.argument);
+    }
+    case AST_NODE_TYPES.BlockStatement: {
+      return statement.body.some((child) => returnsJsx(child));
+    }
+    case AST_NODE_TYPES.IfStatement: {
+      return returnsJsx(statement.consequent) || returnsJsx(statement.alternate);
+    }
+    case AST_NODE_TYPES.TryStatement: {
+      return (
+        returnsJsx(statement.block) ||
+        returnsJsx(statement.handler?.body) ||
+        returnsJsx(statement.finalizer)
+      );
+    }
+    case AST_NODE_TYPES.SwitchStatement: {
+      return statement.cases.some((switchCase) =>
+        switchCase.consequent.some((child) => returnsJsx(child))
+      );
+    }
+    default: {
+      return false;
+    }
+  }
+}
+
+/**
+ * Checks if an exported function is an async component: an async function
+ * with a PascalCase name or one that returns JSX. Functions with their own
+ * 'use server' directive are Server Actions, not components.
+ */
+function isAsyncComponent(exportedName: string, fn: ExportedFunction): boolean {
+  if (!fn.async || isUseServerFunction(fn)) {
+    return false;
+  }
+  const name = fn.id?.name ?? (exportedName === 'default' ? null : exportedName);
+  if (name !== null && /^[A-Z]/.test(name)) {
+    return true;
+  }
+  return fn.body.type === AST_NODE_TYPES.BlockStatement
+    ? returnsJsx(fn.body)
+    : isJsxExpression(fn.body);
+}
+
+export const noAsyncServerComponentInClient = createRule<Options, MessageIds>({
+  name: 'no-async-server-component-in-client',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: "Prevent 'use client' files from importing async Server Components",
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ignoreFiles: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'File patterns to ignore',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      asyncServerComponentImport:
+        'Async Server Component "{{name}}" from "{{module}}" is imported into a Client Component, where async components can\'t render. Render it in a Server Component and pass it to this component as children instead.',
+    },
+  },
+  defaultOptions: [{}],
+
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options = {}]) {
+    // Normalize Windows paths to POSIX for picomatch (backslashes are treated as escapes)
+    const filename = context.filename.replaceAll('\\', '/');
+    const ignoreFiles = options.ignoreFiles || [];
+    if (ignoreFiles.length > 0 && picomatch(ignoreFiles)(filename)) {
+      return {};
+    }
+    if (!hasUseClientDirective(context.sourceCode)) {
+      return {};
+    }
+
+    /**
+     * Gets the async components a local module exports, by exported name.
+     * Modules with their own 'use client' are Client Components and
+     * 'use server' modules export Server Actions, so neither returns any.
+     */
+    function getAsyncComponentExports(source: string): Set<string> {
+      const resolved = isRelativeSpecifier(source)
+        ? resolveLocalImport(source, context.filename)
+        : resolveAliasedImport(source, context.filename);
+      const ast = resolved ? parseModule(resolved, context.languageOptions) : null;
+      if (!ast || hasDirective(ast.body, 'use client') || hasDirective(ast.body, 'use server')) {
+        return new Set();
+      }
+      const components = new Set<string>();
+      for (const [name, fn] of getExportedFunctions(ast)) {
+        if (isAsyncComponent(name, fn)) {
+          components.add(name);
+        }
+      }
+      return components;
+    }
+
+    /**
+     * Gets the exported name an import specifier binds, or null for
+     * namespace imports and type-only specifiers
+     */
+    function getSpecifierExportName(specifier: TSESTree.ImportClause): string | null {
+      if (specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier) {
+        return 'default';
+      }
+      if (specifier.type === AST_NODE_TYPES.ImportSpecifier && specifier.importKind !== 'type') {
+        return getImportedName(specifier);
+      }
+      return null;
+    }
+
+    return {
+      ImportDeclaration(node) {
+        if (node.importKind === 'type' || node.specifiers.length === 0) {
+          return;
+        }
+        const source = node.source.value;
+        const components = getAsyncComponentExports(source);
+        if (components.size === 0) {
+          return;
+        }
+        for (const specifier of node.specifiers) {
+          const exportName = getSpecifierExportName(specifier);
+          if (exportName && components.has(exportName)) {
+            context.report({
+              node: specifier,
+              messageId: 'asyncServerComponentImport',
+              data: { name: specifier.local.name, module: source },
+            });
+          }
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,126 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { afterAll, describe, it } from 'vitest';
+import * as parser from '@typescript-eslint/parser';
+import plugin from './index';
+
+// Configure RuleTester to use Vitest's lifecycle
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser,
+    parserOptions: {
+      ecmaVersion: 2022,
+      sourceType: 'module',
+    },
+  },
+});
+
+ruleTester.run('no-browser-apis-in-server - basic', plugin.rules['no-browser-apis-in-server'], {
+  valid: [
+    // Client files can use browser APIs
+    {
+      code: `import mapboxgl from 'mapbox-gl';\nexport const theme = localStorage.getItem('theme');\nexport const map = mapboxgl;`,
+      filename: '/src/components/Map.tsx',
+    },
+    // Files outside serverFilePatterns are not server files
+    {
+      code: `export const width = window.innerWidth;`,
+      filename: '/src/lib/viewport.ts',
+    },
+    // typeof checks and browser-only guard branches in server files
+    {
+      code: `export function getTheme() {\n  if (typeof window !== 'undefined') {\n    return localStorage.getItem('theme');\n  }\n  return typeof document === 'undefined' ? 'light' : document.title;\n}`,
+      filename: '/src/server/theme.ts',
+    },
+    // Local bindings shadow the globals
+    {
+      code: `export function render(window: { title: string }) {\n  const document = { title: window.title };\n  return document.title;\n}`,
+      filename: '/src/server/render.ts',
+    },
+    // Type annotations are not references
+    {
+      code: `export function measure(element: HTMLElement, observer: ResizeObserver) {\n  return [element, observer];\n}`,
+      filename: '/src/server/measure.ts',
+    },
+    // Type-only imports are erased
+    {
+      code: `import type { Map } from 'mapbox-gl';\nexport type Maps = Map[];`,
+      filename: '/src/server/maps.ts',
+    },
+    // Allowed globals and ignored files
+    {
+      code: `export const doc = document;`,
+      filename: '/src/server/dom.ts',
+      options: [{ allowedBrowserGlobals: ['document'] }],
+    },
+    {
+      code: `export const doc = document;`,
+      filename: '/src/server/dom.ts',
+      options: [{ ignoreFiles: ['**/server/dom.ts'] }],
+    },
+  ],
+
+  invalid: [
+    // localStorage in a SvelteKit server load - BLOCKED
+    {
+      code: `export async function load() {\n  return { theme: localStorage.getItem('theme') };\n}`,
+      filename: '/src/routes/settings/+page.server.ts',
+      options: [{ serverFilePatterns: ['**/+page.server.ts'] }],
+      errors: [{ messageId: 'browserGlobalInServer', data: { name: 'localStorage' } }],
+    },
+    // Browser-only packages in server files - BLOCKED
+    {
+      code: `import 'client-only';\nimport L from 'leaflet';\nexport { Map } from 'react-leaflet';\nexport const icon = L.icon;`,
+      filename: '/src/server/map.ts',
+      errors: [
+        { messageId: 'browserModuleInServer', data: { module: 'client-only' } },
+        { messageId: 'browserModuleInServer', data: { module: 'leaflet' } },
+        { messageId: 'browserModuleInServer', data: { module: 'react-leaflet' } },
+      ],
+    },
+    // 'use server' modules - BLOCKED
+    {
+      code: `'use server';\nexport async function save() {\n  window.location.href = '/done';\n}`,
+      filename: '/src/app/actions.ts',
+      errors: [{ messageId: 'browserGlobalInServer', data: { name: 'window' } }],
+    },
+    // Files importing 'server-only' - BLOCKED
+    {
+      code: `import 'server-only';\nexport const url = location.href;`,
+      filename: '/src/lib/url.ts',
+      errors: [{ messageId: 'browserGlobalInServer', data: { name: 'location' } }],
+    },
+    // Server function callbacks and server exports in client files - BLOCKED
+    {
+      code: `export const getTheme = createServerFn().handler(() => sessionStorage.getItem('theme'));\nexport async function getServerSideProps() {\n  return { props: { title: document.title } };\n}\nexport const width = window.innerWidth;`,
+      filename: '/src/pages/index.tsx',
+      errors: [
+        { messageId: 'browserGlobalInServer', data: { name: 'sessionStorage' } },
+        { messageId: 'browserGlobalInServer', data: { name: 'document' } },
+      ],
+    },
+    // Server guard branches - BLOCKED
+    {
+      code: `export const load = () => import.meta.env.SSR ? import('monaco-editor') : null;`,
+      filename: '/src/components/Editor.ts',
+      errors: [{ messageId: 'browserModuleInServer', data: { module: 'monaco-editor' } }],
+    },
+    // Server Components with directiveAware - BLOCKED
+    {
+      code: `export default function Page() {\n  const saved = localStorage.getItem('draft');\n  return saved;\n}`,
+      filename: '/src/app/page.tsx',
+      options: [{ directiveAware: true }],
+      errors: [{ messageId: 'browserGlobalInServer', data: { name: 'localStorage' } }],
+    },
+    // Custom browserModules and require() - BLOCKED
+    {
+      code: `const Chart = require('chart.js/auto');\nexport const chart = Chart;`,
+      filename: '/src/server/charts.ts',
+      options: [{ browserModules: ['chart.js'] }],
+      errors: [{ messageId: 'browserModuleInServer', data: { module: 'chart.js/auto' } }],
+    },
+  ],
+});
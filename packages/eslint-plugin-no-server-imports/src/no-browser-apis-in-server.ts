@@ -0,0 +1,182 @@
+/**
+ * Rule: no-browser-apis-in-server
+ * ===============================
+ * Reports browser globals (`window`, `document`, `localStorage`, ...) and
+ * browser-only packages in server code: server files, `'use server'`
+ * modules, Server Components, and server scopes inside other files. They
+ * don't exist during SSR, so they crash the request instead of the build.
+ */
+
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+import { findBrowserGlobalReferences } from './browser-globals';
+import { createRule } from './create-rule';
+import {
+  FILE_CLASSIFICATION_SCHEMA,
+  classifyFile,
+  hasServerOnlyMarker,
+} from './file-classification';
+import type { FileClassificationOptions } from './file-classification';
+import {
+  createModuleMatcher,
+  getDynamicImportSource,
+  getRequireSource,
+  hasValueExportSpecifiers,
+  hasValueImportSpecifiers,
+} from './module-matching';
+import { SERVER_SCOPE_SCHEMA, createServerScopeTracker, mergeListeners } from './server-scopes';
+import type { ServerScopeOptions } from './server-scopes';
+
+/** Default browser-only modules that should not be imported in server code */
+const DEFAULT_BROWSER_MODULES = [
+  // Marker package
+  'client-only',
+  // Maps
+  'mapbox-gl',
+  'maplibre-gl',
+  'leaflet',
+  'react-leaflet',
+  // Editors
+  'ace-builds',
+  'monaco-editor',
+  'quill',
+  // Media
+  'hls.js',
+  'video.js',
+];
+
+/** Configuration options for the no-browser-apis-in-server rule */
+export interface BrowserApiRuleOptions extends FileClassificationOptions, ServerScopeOptions {
+  /** Additional browser-only modules to check (merged with defaults) */
+  browserModules?: string[];
+  /** Browser globals that are safe in your server code (e.g. polyfilled by a DOM shim) */
+  allowedBrowserGlobals?: string[];
+}
+
+type MessageIds = 'browserGlobalInServer' | 'browserModuleInServer';
+type Options = [BrowserApiRuleOptions?];
+
+export const noBrowserApisInServer = createRule<Options, MessageIds>({
+  name: 'no-browser-apis-in-server',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Prevent browser globals and browser-only modules in server code',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ...FILE_CLASSIFICATION_SCHEMA,
+          ...SERVER_SCOPE_SCHEMA,
+          browserModules: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Additional browser-only modules to check',
+          },
+          allowedBrowserGlobals: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Browser globals (e.g. "window") allowed in server code',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      browserGlobalInServer:
+        'Browser global "{{name}}" used in server code, where it does not exist. Move it into client code or behind a typeof window check.',
+      browserModuleInServer:
+        'Browser-only module "{{module}}" imported in server code. Import it in client code instead.',
+    },
+  },
+  defaultOptions: [{}],
+
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options = {}]) {
+    const fileKind = classifyFile(context, options);
+    if (fileKind === 'ignored') {
+      return {};
+    }
+
+    const { sourceCode } = context;
+    // Server files, Server Actions modules, Server Components, and files
+    // importing 'server-only' run entirely on the server
+    const isServerFile =
+      fileKind === 'server' || fileKind === 'server-component' || hasServerOnlyMarker(sourceCode);
+    const matchesBrowserModule = createModuleMatcher({
+      modules: [...DEFAULT_BROWSER_MODULES, ...(options.browserModules || [])],
+      checkNodeBuiltins: false,
+      safeBuiltins: [],
+    });
+    const allowedBrowserGlobals = new Set(options.allowedBrowserGlobals || []);
+    const serverScopes = createServerScopeTracker(context, options);
+
+    // Imports are reported in Program:exit, once all server scopes are known
+    const browserImports: { node: TSESTree.Node; module: string }[] = [];
+
+    function collectImport(node: TSESTree.Node, source: string | null): void {
+      if (source && matchesBrowserModule(source)) {
+        browserImports.push({ node, module: source });
+      }
+    }
+
+    /**
+     * Checks if a node runs on the server: anywhere in a server file, or in a
+     * server scope or server guard branch elsewhere, unless it sits in a
+     * browser-only guard branch
+     */
+    function isServerCode(node: TSESTree.Node): boolean {
+      if (serverScopes.isInsideClientGuard(node)) {
+        return false;
+      }
+      return (
+        isServerFile ||
+        serverScopes.isInsideServerScope(node) ||
+        serverScopes.isInsideServerGuard(node)
+      );
+    }
+
+    return mergeListeners(serverScopes.listeners, {
+      ImportDeclaration(node) {
+        if (hasValueImportSpecifiers(node)) {
+          collectImport(node.source, node.source.value);
+        }
+      },
+
+      ExportAllDeclaration(node) {
+        if (node.exportKind !== 'type') {
+          collectImport(node.source, node.source.value);
+        }
+      },
+
+      ExportNamedDeclaration(node) {
+        if (node.source && hasValueExportSpecifiers(node)) {
+          collectImport(node.source, node.source.value);
+        }
+      },
+
+      ImportExpression(node) {
+        collectImport(node.source, getDynamicImportSource(node));
+      },
+
+      CallExpression(node) {
+        const source = getRequireSource(node);
+        if (source) {
+          collectImport(node.arguments[0], source);
+        }
+      },
+
+      'Program:exit'() {
+        for (const { node, module } of browserImports) {
+          if (isServerCode(node)) {
+            context.report({ node, messageId: 'browserModuleInServer', data: { module } });
+          }
+        }
+        for (const { node, name } of findBrowserGlobalReferences(sourceCode, allowedBrowserGlobals)) {
+          if (isServerCode(node)) {
+            context.report({ node, messageId: 'browserGlobalInServer', data: { name } });
+          }
+        }
+      },
+    });
+  },
+});
@@ -0,0 +1,126 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { afterAll, describe, it } from 'vitest';
+import * as parser from '@typescript-eslint/parser';
+import plugin from './index';
+
+// Configure RuleTester to use Vitest's lifecycle
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser,
+    parserOptions: {
+      ecmaVersion: 2022,
+      sourceType: 'module',
+      ecmaFeatures: { jsx: true },
+    },
+  },
+});
+
+ruleTester.run(
+  'no-client-apis-in-server-components - basic',
+  plugin.rules['no-client-apis-in-server-components'],
+  {
+    valid: [
+      // Client Components can use hooks, context and event handlers
+      {
+        code: "'use client';\nimport { createContext, useState } from 'react';\nexport const Theme = createContext('light');\nexport function Counter() {\n  const [count, setCount] = useState(0);\n  return <button onClick={() => setCount(count + 1)}>{count}</button>;\n}",
+        filename: '/src/app/counter.tsx',
+      },
+      // Hooks that work on the server
+      {
+        code: "import { cache, use, useId } from 'react';\nexport const getUser = cache(async () => null);\nexport default function Page({ params }) {\n  const { id } = use(params);\n  return <label htmlFor={useId()}>{id}</label>;\n}",
+        filename: '/src/app/page.tsx',
+      },
+      // Server Actions and passed-through references are fine on components
+      {
+        code: "import { Form } from './form';\nimport { save } from './actions';\nexport default function Page() {\n  return <Form onSubmit={save} onCancel={async () => {\n    'use server';\n  }} />;\n}",
+        filename: '/src/app/edit/page.tsx',
+      },
+      // Local functions named like hooks
+      {
+        code: `function useState() {\n  return [0];\n}\nexport default function Page() {\n  return <p>{useState()[0]}</p>;\n}`,
+        filename: '/src/app/local/page.tsx',
+      },
+      // Files outside serverComponentPatterns and server files are not Server Components
+      {
+        code: `import { useState } from 'react';\nexport const useToggle = () => useState(false);`,
+        filename: '/src/hooks/toggle.ts',
+      },
+      // Pages Router pages and shared components are client code without 'use client'
+      {
+        code: `import { useState } from 'react';\nexport default function Home() {\n  const [open, setOpen] = useState(false);\n  return <button onClick={() => setOpen(!open)}>Menu</button>;\n}`,
+        filename: '/app/pages/index.tsx',
+      },
+      {
+        code: `import { useState } from 'react';\nexport function Btn() {\n  const [pressed, setPressed] = useState(false);\n  return <button onClick={() => setPressed(true)}>{String(pressed)}</button>;\n}`,
+        filename: '/app/src/components/Btn.tsx',
+      },
+      {
+        code: `'use server';\nimport { useState } from 'react';\nexport async function action() {\n  return useState;\n}`,
+        filename: '/src/app/actions.ts',
+      },
+      // Hooks and components colocated in src/app aren't route entry files
+      {
+        code: `import { useState } from 'react';\nexport function useCounter() {\n  const [count, setCount] = useState(0);\n  return { count, increment: () => setCount(count + 1) };\n}`,
+        filename: '/app/src/app/hooks/use-counter.ts',
+      },
+      {
+        code: `import { useState } from 'react';\nexport function Chart() {\n  const [zoom, setZoom] = useState(1);\n  return <canvas onWheel={() => setZoom(zoom * 2)} />;\n}`,
+        filename: '/app/src/app/dashboard/chart.tsx',
+      },
+    ],
+
+    invalid: [
+      // State and effect hooks - BLOCKED
+      {
+        code: "import { useEffect, useState as useLocalState } from 'react';\nexport default function Page() {\n  const [value] = useLocalState(0);\n  useEffect(() => {}, []);\n  return <p>{value}</p>;\n}",
+        filename: '/src/app/page.tsx',
+        errors: [
+          { messageId: 'clientHookInServerComponent', data: { name: 'useState' } },
+          { messageId: 'clientHookInServerComponent', data: { name: 'useEffect' } },
+        ],
+      },
+      // React namespace calls and next/navigation hooks - BLOCKED
+      {
+        code: "import React from 'react';\nimport { useRouter } from 'next/navigation';\nexport default function Page() {\n  const ref = React.useRef(null);\n  const router = useRouter();\n  return <div ref={ref}>{router ? 'ok' : null}</div>;\n}",
+        filename: '/src/app/dashboard/page.tsx',
+        errors: [
+          { messageId: 'clientHookInServerComponent', data: { name: 'useRef' } },
+          { messageId: 'clientHookInServerComponent', data: { name: 'useRouter' } },
+        ],
+      },
+      // createContext - BLOCKED
+      {
+        code: `import * as React from 'react';\nexport const ThemeContext = React.createContext('light');`,
+        filename: '/src/app/layout.tsx',
+        errors: [{ messageId: 'createContextInServerComponent' }],
+      },
+      // Event handlers on DOM elements and inline functions on components - BLOCKED
+      {
+        code: "import { Button } from './button';\nexport default function Page({ track }) {\n  return (\n    <div onMouseEnter={track}>\n      <Button onPress={() => track('press')} />\n    </div>\n  );\n}",
+        filename: '/src/app/landing/page.tsx',
+        errors: [
+          { messageId: 'eventHandlerInServerComponent', data: { name: 'onMouseEnter' } },
+          { messageId: 'eventHandlerInServerComponent', data: { name: 'onPress' } },
+        ],
+      },
+      // Custom client hooks - BLOCKED
+      {
+        code: `import { useLocalStorage } from '@/hooks';\nexport default function Page() {\n  return <p>{useLocalStorage('theme')}</p>;\n}`,
+        filename: '/src/app/settings/page.tsx',
+        options: [{ clientHooks: ['useLocalStorage'] }],
+        errors: [{ messageId: 'clientHookInServerComponent', data: { name: 'useLocalStorage' } }],
+      },
+      // Custom serverComponentPatterns - BLOCKED
+      {
+        code: `import { useState } from 'react';\nexport default function Page() {\n  return <p>{useState(0)[0]}</p>;\n}`,
+        filename: '/app/page.tsx',
+        options: [{ serverComponentPatterns: ['**/app/**'] }],
+        errors: [{ messageId: 'clientHookInServerComponent' }],
+      },
+    ],
+  }
+);
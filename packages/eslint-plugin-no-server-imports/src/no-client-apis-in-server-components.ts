@@ -0,0 +1,218 @@
+/**
+ * Rule: no-client-apis-in-server-components
+ * =========================================
+ * Reports client-only React APIs in React Server Components: state and
+ * effect hooks, `next/navigation` hooks, `createContext()`, and event
+ * handler props. Server Components are classified like `directiveAware`
+ * does for no-server-imports: a file matching serverComponentPatterns that
+ * doesn't declare `'use client'`.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+import { createRule } from './create-rule';
+import { FILE_CLASSIFICATION_SCHEMA, classifyFile, hasDirective } from './file-classification';
+import type { FileClassificationOptions } from './file-classification';
+import { getImportBinding, getImportedName } from './server-scopes';
+
+/**
+ * Default Server Component paths: the Next.js App Router entry files in src/app.
+ * Not the whole directory, because hooks and helpers colocated there are
+ * imported by Client Components as well. Not clientFilePatterns, because
+ * Pages Router files and shared components are client code without a
+ * 'use client' directive.
+ */
+const DEFAULT_SERVER_COMPONENT_PATTERNS = [
+  '**/src/app/**/{page,layout,template,loading,error,not-found,default}.{tsx,jsx}',
+];
+
+/**
+ * Hooks that only work in Client Components, by the module they are imported
+ * from. `use`, `useId`, `useMemo` and `useCallback` also work on the server.
+ */
+const CLIENT_HOOKS: Record<string, string[]> = {
+  react: [
+    'useState',
+    'useReducer',
+    'useEffect',
+    'useLayoutEffect',
+    'useInsertionEffect',
+    'useEffectEvent',
+    'useRef',
+    'useContext',
+    'useImperativeHandle',
+    'useSyncExternalStore',
+    'useTransition',
+    'useDeferredValue',
+    'useOptimistic',
+    'useActionState',
+  ],
+  'react-dom': ['useFormStatus', 'useFormState'],
+  'next/navigation': [
+    'useRouter',
+    'usePathname',
+    'useSearchParams',
+    'useParams',
+    'useSelectedLayoutSegment',
+    'useSelectedLayoutSegments',
+  ],
+};
+
+/** Configuration options for the no-client-apis-in-server-components rule */
+export interface ServerComponentRuleOptions extends FileClassificationOptions {
+  /** Additional client-only hooks to report, matched by name wherever they come from (e.g. `useLocalStorage`) */
+  clientHooks?: string[];
+}
+
+type MessageIds =
+  | 'clientHookInServerComponent'
+  | 'createContextInServerComponent'
+  | 'eventHandlerInServerComponent';
+type Options = [ServerComponentRuleOptions?];
+
+/**
+ * Checks if a JSX element is a DOM element (`<button>`) rather than a component
+ */
+function isIntrinsicElement(node: TSESTree.JSXOpeningElement): boolean {
+  return node.name.type === AST_NODE_TYPES.JSXIdentifier && /^[a-z]/.test(node.name.name);
+}
+
+/**
+ * Checks if an expression is an inline function, other than an inline
+ * Server Action (a function with a `'use server'` directive)
+ */
+function isInlineClientFunction(node: TSESTree.Node): boolean {
+  if (
+    node.type !== AST_NODE_TYPES.ArrowFunctionExpression &&
+    node.type !== AST_NODE_TYPES.FunctionExpression
+  ) {
+    return false;
+  }
+  if (node.body.type !== AST_NODE_TYPES.BlockStatement) {
+    return true;
+  }
+  return !hasDirective(node.body.body, 'use server');
+}
+
+export const noClientApisInServerComponents = createRule<Options, MessageIds>({
+  name: 'no-client-apis-in-server-components',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Prevent client-only React APIs in React Server Components',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ...FILE_CLASSIFICATION_SCHEMA,
+          clientHooks: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Additional client-only hooks to report',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      clientHookInServerComponent:
+        'Hook "{{name}}" only works in Client Components, but this file is a Server Component. Add \'use client\' or move the stateful part into a Client Component.',
+      createContextInServerComponent:
+        "createContext() only works in Client Components, but this file is a Server Component. Create the context in a 'use client' module.",
+      eventHandlerInServerComponent:
+        'Event handler "{{name}}" in a Server Component. Functions can\'t be sent to the browser from the server; move the element into a Client Component.',
+    },
+  },
+  defaultOptions: [{}],
+
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options = {}]) {
+    // The rule is about Server Components, so directive-aware classification is always on
+    const serverComponentPatterns =
+      options.serverComponentPatterns || DEFAULT_SERVER_COMPONENT_PATTERNS;
+    if (
+      classifyFile(context, { ...options, directiveAware: true, serverComponentPatterns }) !==
+      'server-component'
+    ) {
+      return {};
+    }
+
+    const { sourceCode } = context;
+    const clientHooks = new Set(options.clientHooks || []);
+
+    /**
+     * Resolves a callee to the React API it calls: `useState` from
+     * `import { useState } from 'react'`, or `React.useState` through a
+     * default or namespace import. Returns the module and exported name.
+     */
+    function getImportedCallee(
+      callee: TSESTree.Expression
+    ): { source: string; name: string } | null {
+      if (callee.type === AST_NODE_TYPES.Identifier) {
+        const binding = getImportBinding(sourceCode, callee);
+        if (binding?.specifier.type !== AST_NODE_TYPES.ImportSpecifier) {
+          return null;
+        }
+        return { source: binding.source, name: getImportedName(binding.specifier) };
+      }
+      if (
+        callee.type === AST_NODE_TYPES.MemberExpression &&
+        !callee.computed &&
+        callee.object.type === AST_NODE_TYPES.Identifier &&
+        callee.property.type === AST_NODE_TYPES.Identifier
+      ) {
+        const binding = getImportBinding(sourceCode, callee.object);
+        if (!binding || binding.specifier.type === AST_NODE_TYPES.ImportSpecifier) {
+          return null;
+        }
+        return { source: binding.source, name: callee.property.name };
+      }
+      return null;
+    }
+
+    return {
+      CallExpression(node) {
+        if (node.callee.type === AST_NODE_TYPES.Identifier && clientHooks.has(node.callee.name)) {
+          context.report({
+            node: node.callee,
+            messageId: 'clientHookInServerComponent',
+            data: { name: node.callee.name },
+          });
+          return;
+        }
+
+        const imported = getImportedCallee(node.callee);
+        if (!imported) {
+          return;
+        }
+        if (imported.source === 'react' && imported.name === 'createContext') {
+          context.report({ node: node.callee, messageId: 'createContextInServerComponent' });
+        } else if (CLIENT_HOOKS[imported.source]?.includes(imported.name)) {
+          context.report({
+            node: node.callee,
+            messageId: 'clientHookInServerComponent',
+            data: { name: imported.name },
+          });
+        }
+      },
+
+      // <button onClick={...}> always needs the browser; on components, an
+      // inline function can't be serialized unless it is a Server Action
+      JSXAttribute(node) {
+        if (node.name.type !== AST_NODE_TYPES.JSXIdentifier || !/^on[A-Z]/.test(node.name.name)) {
+          return;
+        }
+        const element = node.parent;
+        const value =
+          node.value?.type === AST_NODE_TYPES.JSXExpressionContainer ? node.value.expression : null;
+        if (isIntrinsicElement(element) || (value && isInlineClientFunction(value))) {
+          context.report({
+            node,
+            messageId: 'eventHandlerInServerComponent',
+            data: { name: node.name.name },
+          });
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,157 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { afterAll, describe, it } from 'vitest';
+import * as parser from '@typescript-eslint/parser';
+import plugin from './index';
+
+// Configure RuleTester to use Vitest's lifecycle
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser,
+    parserOptions: {
+      ecmaVersion: 2022,
+      sourceType: 'module',
+    },
+  },
+});
+
+// Project root for middleware, which is matched relative to the nearest package.json.
+// Created at load time because RuleTester cases are built before tests run.
+const projectRoot = mkdtempSync(path.join(tmpdir(), 'no-node-in-edge-'));
+writeFileSync(path.join(projectRoot, 'package.json'), '{}');
+mkdirSync(path.join(projectRoot, 'src'));
+afterAll(() => {
+  rmSync(projectRoot, { recursive: true, force: true });
+});
+
+/** Absolute path of a file in the project */
+function projectPath(relativePath: string): string {
+  return path.join(projectRoot, relativePath);
+}
+
+ruleTester.run('no-node-in-edge - basic', plugin.rules['no-node-in-edge'], {
+  valid: [
+    // Web APIs in middleware
+    {
+      code: `import { NextResponse } from 'next/server';\nimport { jwtVerify } from 'jose';\nexport function middleware(request) {\n  return NextResponse.next();\n}`,
+      filename: projectPath('src/middleware.ts'),
+    },
+    // Built-ins the edge runtime provides
+    {
+      code: `import { AsyncLocalStorage } from 'node:async_hooks';\nimport { Buffer } from 'buffer';\nimport { EventEmitter } from 'events';\nexport const storage = new AsyncLocalStorage();\nexport const bus = new EventEmitter();\nexport const bytes = Buffer.from('x');`,
+      filename: projectPath('middleware.ts'),
+    },
+    // Node.js runtime routes are not checked
+    {
+      code: `import fs from 'node:fs';\nexport const runtime = 'nodejs';\nexport function GET() {\n  return new Response(fs.readFileSync('x'));\n}`,
+      filename: '/project/src/app/api/files/route.ts',
+    },
+    // Middleware that opts into the Node.js runtime is not checked
+    {
+      code: `import fs from 'node:fs';\nexport const config = { runtime: 'nodejs', matcher: '/files/:path*' };\nexport function middleware() {\n  return new Response(fs.readFileSync('x'));\n}`,
+      filename: projectPath('middleware.ts'),
+    },
+    // Files named middleware outside the project root are not Next.js middleware
+    {
+      code: `import type { Request, Response, NextFunction } from 'express';\nimport fs from 'node:fs';\nexport function logger(req: Request, res: Response, next: NextFunction) {\n  fs.appendFileSync('log', req.url);\n  next();\n}`,
+      filename: projectPath('src/server/express/middleware.ts'),
+    },
+    // Files that don't run on the edge are not checked
+    {
+      code: `import fs from 'node:fs';\nexport const dir = __dirname;`,
+      filename: '/project/src/lib/files.ts',
+    },
+    // Type-only imports are erased
+    {
+      code: `import type { IncomingMessage } from 'node:http';\nexport type Req = IncomingMessage;`,
+      filename: projectPath('middleware.ts'),
+    },
+    // typeof checks and process.env are fine
+    {
+      code: `export const hasBuffer = typeof Buffer !== 'undefined';\nexport const secret = process.env.SECRET;`,
+      filename: projectPath('middleware.ts'),
+    },
+    // The Buffer global comes with the buffer built-in
+    {
+      code: `export function middleware(request) {\n  return Buffer.from(request.headers.get('authorization') ?? '', 'base64');\n}`,
+      filename: projectPath('middleware.ts'),
+    },
+    // Built-ins and globals a runtime provides can be allowed
+    {
+      code: `import { createHash } from 'node:crypto';\nexport const hash = createHash('sha256');\nexport const next = setImmediate;`,
+      filename: '/project/workers/hash.ts',
+      options: [
+        {
+          edgeFilePatterns: ['**/workers/**'],
+          edgeSafeBuiltins: ['crypto'],
+          allowedNodeGlobals: ['setImmediate'],
+        },
+      ],
+    },
+    // Ignored files
+    {
+      code: `import fs from 'fs';`,
+      filename: projectPath('src/middleware.ts'),
+      options: [{ ignoreFiles: ['**/src/middleware.ts'] }],
+    },
+  ],
+
+  invalid: [
+    // Node built-ins in Next.js middleware - BLOCKED
+    {
+      code: `import { readFileSync } from 'node:fs';\nimport path from 'path';\nexport function middleware() {\n  return readFileSync(path.join('a', 'b'));\n}`,
+      filename: projectPath('src/middleware.ts'),
+      errors: [
+        { messageId: 'nodeModuleInEdge', data: { module: 'node:fs' } },
+        { messageId: 'nodeModuleInEdge', data: { module: 'path' } },
+      ],
+    },
+    // export const runtime = 'edge' - BLOCKED
+    {
+      code: `import jwt from 'jsonwebtoken';\nexport const runtime = 'edge';\nexport function GET(request) {\n  return Response.json(jwt.decode(request.headers.get('authorization')));\n}`,
+      filename: '/project/src/app/api/me/route.ts',
+      errors: [{ messageId: 'nodeModuleInEdge', data: { module: 'jsonwebtoken' } }],
+    },
+    // export const config = { runtime: 'edge' } (Pages Router, Vercel Edge Functions) - BLOCKED
+    {
+      code: `import bcrypt from 'bcrypt';\nexport const config = { runtime: 'edge' };\nexport default function handler() {\n  return bcrypt.hash('x', 10);\n}`,
+      filename: '/project/pages/api/hash.ts',
+      errors: [{ messageId: 'nodeModuleInEdge', data: { module: 'bcrypt' } }],
+    },
+    // require(), import() and re-exports - BLOCKED
+    {
+      code: `const zlib = require('zlib');\nexport const load = () => import('node:child_process');\nexport { Readable } from 'node:stream';\nexport const gzip = zlib.gzipSync;`,
+      filename: projectPath('middleware.ts'),
+      errors: [
+        { messageId: 'nodeModuleInEdge', data: { module: 'zlib' } },
+        { messageId: 'nodeModuleInEdge', data: { module: 'node:child_process' } },
+        { messageId: 'nodeModuleInEdge', data: { module: 'node:stream' } },
+      ],
+    },
+    // Node.js globals - BLOCKED
+    {
+      code: `export const runtime = 'edge';\nexport function GET() {\n  return Response.json({ cwd: process.cwd(), dir: __dirname });\n}`,
+      filename: '/project/src/app/api/debug/route.ts',
+      errors: [
+        { messageId: 'nodeGlobalInEdge', data: { name: 'process.cwd' } },
+        { messageId: 'nodeGlobalInEdge', data: { name: '__dirname' } },
+      ],
+    },
+    // Cloudflare Workers via edgeFilePatterns, custom edgeModules - BLOCKED
+    {
+      code: `import { Client } from 'pg';\nimport os from 'node:os';\nexport default { fetch: () => new Response(os.hostname() + Client.name) };`,
+      filename: '/project/workers/api/index.ts',
+      options: [{ edgeFilePatterns: ['**/workers/**'], edgeModules: ['pg'] }],
+      errors: [
+        { messageId: 'nodeModuleInEdge', data: { module: 'pg' } },
+        { messageId: 'nodeModuleInEdge', data: { module: 'node:os' } },
+      ],
+    },
+  ],
+});
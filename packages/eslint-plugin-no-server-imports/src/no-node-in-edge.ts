@@ -0,0 +1,278 @@
+/**
+ * Rule: no-node-in-edge
+ * =====================
+ * Reports Node.js built-ins, Node-only packages and Node.js globals in code
+ * that runs on an edge runtime (Next.js middleware, `runtime = 'edge'`
+ * routes, Cloudflare Workers, Vercel Edge Functions). Edge runtimes are V8
+ * isolates without Node.js, so these fail at build time or on first request.
+ */
+
+import path from 'node:path';
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+import picomatch from 'picomatch';
+import { createRule } from './create-rule';
+import { findProjectRoot } from './framework-detection';
+import {
+  createModuleMatcher,
+  getDynamicImportSource,
+  getRequireSource,
+  hasValueExportSpecifiers,
+  hasValueImportSpecifiers,
+} from './module-matching';
+import { findNodeGlobalReferences } from './node-globals';
+
+/**
+ * Next.js middleware, which runs on the edge runtime. Matched relative to
+ * the project root (the nearest package.json), where Next.js looks for it.
+ */
+const MIDDLEWARE_FILE_PATTERNS = ['middleware.{ts,js}', 'src/middleware.{ts,js}'];
+
+/** Values of a `runtime` export that select the edge runtime */
+const EDGE_RUNTIMES = new Set(['edge', 'experimental-edge']);
+
+/** Packages that need Node.js and don't run on edge runtimes */
+const DEFAULT_EDGE_MODULES = [
+  // Native addons
+  'argon2',
+  'bcrypt',
+  'better-sqlite3',
+  'canvas',
+  'cpu-features',
+  'isolated-vm',
+  'node-pty',
+  'sharp',
+  'sqlite3',
+  'zeromq',
+  // Built on Node.js APIs (use jose, Web Crypto, fetch handlers instead)
+  'express',
+  'fs-extra',
+  'jsonwebtoken',
+  'node-cron',
+];
+
+/** Node.js built-ins that Next.js and Vercel edge runtimes provide */
+const DEFAULT_EDGE_SAFE_BUILTINS = ['async_hooks', 'buffer', 'events', 'util', 'assert'];
+
+/** Node.js globals that come with a safe built-in, by the built-in that provides them */
+const BUILTIN_GLOBALS: Record<string, string> = {
+  buffer: 'Buffer',
+};
+
+/** Configuration options for the no-node-in-edge rule */
+export interface EdgeRuleOptions {
+  /**
+   * Additional file patterns that run on an edge runtime, such as
+   * Cloudflare Workers or Vercel Edge Functions (Next.js middleware at the
+   * project root is always checked)
+   */
+  edgeFilePatterns?: string[];
+  /** File patterns to completely ignore */
+  ignoreFiles?: string[];
+  /** Additional Node-only packages to report (merged with defaults) */
+  edgeModules?: string[];
+  /** Additional Node.js built-ins your edge runtime provides (merged with async_hooks, buffer, events, util, assert) */
+  edgeSafeBuiltins?: string[];
+  /**
+   * Node.js globals your edge runtime provides. Name a global (`setImmediate`)
+   * or a member (`process.cwd`). `Buffer` is allowed while `buffer` is a safe built-in.
+   */
+  allowedNodeGlobals?: string[];
+}
+
+type MessageIds = 'nodeModuleInEdge' | 'nodeGlobalInEdge';
+type Options = [EdgeRuleOptions?];
+
+/**
+ * Returns the value of a string literal, or null for anything else
+ */
+function getStringValue(node: TSESTree.Node | null | undefined): string | null {
+  return node?.type === AST_NODE_TYPES.Literal && typeof node.value === 'string'
+    ? node.value
+    : null;
+}
+
+/**
+ * Returns the runtime a declarator selects for its module:
+ * `runtime = 'edge'` (App Router) or `config = { runtime: 'nodejs' }`
+ * (middleware, Pages Router API routes, Vercel Edge Functions)
+ */
+function getDeclaredRuntime(declarator: TSESTree.VariableDeclarator): string | null {
+  if (declarator.id.type !== AST_NODE_TYPES.Identifier) {
+    return null;
+  }
+  if (declarator.id.name === 'runtime') {
+    return getStringValue(declarator.init);
+  }
+  if (declarator.id.name !== 'config' || declarator.init?.type !== AST_NODE_TYPES.ObjectExpression) {
+    return null;
+  }
+  for (const property of declarator.init.properties) {
+    if (
+      property.type === AST_NODE_TYPES.Property &&
+      !property.computed &&
+      property.key.type === AST_NODE_TYPES.Identifier &&
+      property.key.name === 'runtime'
+    ) {
+      return getStringValue(property.value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the runtime the module's exported segment config selects, if any
+ */
+function getRuntimeExport(ast: TSESTree.Program): string | null {
+  for (const statement of ast.body) {
+    if (
+      statement.type !== AST_NODE_TYPES.ExportNamedDeclaration ||
+      statement.declaration?.type !== AST_NODE_TYPES.VariableDeclaration
+    ) {
+      continue;
+    }
+    for (const declarator of statement.declaration.declarations) {
+      const runtime = getDeclaredRuntime(declarator);
+      if (runtime) {
+        return runtime;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks if a file is Next.js middleware at the project root (or in src/)
+ */
+function isMiddlewareFile(filename: string, cwd: string): boolean {
+  const root = findProjectRoot(path.dirname(filename)) ?? cwd;
+  const relative = path.relative(root, filename).replaceAll('\\', '/');
+  return picomatch(MIDDLEWARE_FILE_PATTERNS)(relative);
+}
+
+export const noNodeInEdge = createRule<Options, MessageIds>({
+  name: 'no-node-in-edge',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Prevent Node.js modules and globals in code that runs on an edge runtime',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          edgeFilePatterns: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Additional file patterns that run on an edge runtime',
+          },
+          ignoreFiles: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'File patterns to ignore',
+          },
+          edgeModules: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Additional Node-only packages to report in edge code',
+          },
+          edgeSafeBuiltins: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Additional Node.js built-ins provided by the edge runtime',
+          },
+          allowedNodeGlobals: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Node.js globals (e.g. "Buffer") or members provided by the edge runtime',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      nodeModuleInEdge:
+        'Module "{{module}}" needs Node.js, which the edge runtime does not provide. Use a Web API alternative or move this code to the Node.js runtime.',
+      nodeGlobalInEdge:
+        'Node.js global "{{name}}" does not exist in the edge runtime. Use a Web API alternative or move this code to the Node.js runtime.',
+    },
+  },
+  defaultOptions: [{}],
+
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options = {}]) {
+    // Normalize Windows paths to POSIX for picomatch (backslashes are treated as escapes)
+    const filename = context.filename.replaceAll('\\', '/');
+    const { sourceCode } = context;
+
+    const ignoreFiles = options.ignoreFiles || [];
+    if (ignoreFiles.length > 0 && picomatch(ignoreFiles)(filename)) {
+      return {};
+    }
+    // An exported runtime (`runtime = 'nodejs'`, `config = { runtime: 'edge' }`)
+    // decides; otherwise middleware and edgeFilePatterns run on the edge
+    const runtime = getRuntimeExport(sourceCode.ast);
+    const edgeFilePatterns = options.edgeFilePatterns || [];
+    const isEdgeFile = runtime
+      ? EDGE_RUNTIMES.has(runtime)
+      : isMiddlewareFile(filename, context.cwd) ||
+        (edgeFilePatterns.length > 0 && picomatch(edgeFilePatterns)(filename));
+    if (!isEdgeFile) {
+      return {};
+    }
+
+    const safeBuiltins = [...DEFAULT_EDGE_SAFE_BUILTINS, ...(options.edgeSafeBuiltins || [])];
+    const matchesNodeModule = createModuleMatcher({
+      modules: [...DEFAULT_EDGE_MODULES, ...(options.edgeModules || [])],
+      checkNodeBuiltins: true,
+      safeBuiltins,
+    });
+    // A runtime that provides a built-in also provides its global (`buffer` and `Buffer`)
+    const allowedNodeGlobals = new Set([
+      ...safeBuiltins.flatMap((builtin) => BUILTIN_GLOBALS[builtin] ?? []),
+      ...(options.allowedNodeGlobals || []),
+    ]);
+
+    function checkSource(node: TSESTree.Node, source: string | null): void {
+      if (source && matchesNodeModule(source)) {
+        context.report({ node, messageId: 'nodeModuleInEdge', data: { module: source } });
+      }
+    }
+
+    return {
+      ImportDeclaration(node) {
+        if (hasValueImportSpecifiers(node)) {
+          checkSource(node.source, node.source.value);
+        }
+      },
+
+      ExportAllDeclaration(node) {
+        if (node.exportKind !== 'type') {
+          checkSource(node.source, node.source.value);
+        }
+      },
+
+      ExportNamedDeclaration(node) {
+        if (node.source && hasValueExportSpecifiers(node)) {
+          checkSource(node.source, node.source.value);
+        }
+      },
+
+      ImportExpression(node) {
+        checkSource(node.source, getDynamicImportSource(node));
+      },
+
+      CallExpression(node) {
+        const source = getRequireSource(node);
+        if (source) {
+          checkSource(node.arguments[0], source);
+        }
+      },
+
+      'Program:exit'() {
+        for (const { node, name } of findNodeGlobalReferences(sourceCode, allowedNodeGlobals)) {
+          context.report({ node, messageId: 'nodeGlobalInEdge', data: { name } });
+        }
+      },
+    };
+  },
+});
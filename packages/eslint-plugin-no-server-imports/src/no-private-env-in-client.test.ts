@@ -0,0 +1,176 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { afterAll, describe, it } from 'vitest';
+import * as parser from '@typescript-eslint/parser';
+import plugin from './index';
+
+// Configure RuleTester to use Vitest's lifecycle
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser,
+    parserOptions: {
+      ecmaVersion: 2022,
+      sourceType: 'module',
+    },
+  },
+});
+
+// On-disk projects so detectFramework can pick the public prefix.
+// Created at load time because RuleTester cases are built before tests run.
+const fixtureRoot = mkdtempSync(path.join(tmpdir(), 'no-private-env-'));
+afterAll(() => {
+  rmSync(fixtureRoot, { recursive: true, force: true });
+});
+
+/** Writes a package.json declaring a dependency and returns the project path */
+function writeProject(name: string, dependency: string): string {
+  const projectDir = path.join(fixtureRoot, name);
+  mkdirSync(projectDir, { recursive: true });
+  writeFileSync(
+    path.join(projectDir, 'package.json'),
+    JSON.stringify({ dependencies: { [dependency]: '*' } })
+  );
+  return projectDir;
+}
+
+const nextProject = writeProject('next-app', 'next');
+const kitProject = writeProject('kit-app', '@sveltejs/kit');
+const viteProject = writeProject('start-app', '@tanstack/react-start');
+
+ruleTester.run('no-private-env-in-client - basic', plugin.rules['no-private-env-in-client'], {
+  valid: [
+    // Public Next.js variable
+    {
+      code: `export const url = process.env.NEXT_PUBLIC_API_URL;`,
+      filename: path.join(nextProject, 'src/app/page.tsx'),
+    },
+    // NODE_ENV and Vite's built-ins are always available
+    {
+      code: `export const debug = process.env.NODE_ENV !== 'production' || import.meta.env.DEV;`,
+      filename: path.join(viteProject, 'src/routes/index.tsx'),
+    },
+    // Public Vite variable
+    {
+      code: `export const key = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY;`,
+      filename: path.join(viteProject, 'src/routes/checkout.tsx'),
+    },
+    // Public SvelteKit variable through import.meta.env
+    {
+      code: `export const url = import.meta.env.PUBLIC_API_URL;`,
+      filename: path.join(kitProject, 'src/routes/+page.ts'),
+    },
+    // Server files are not checked
+    {
+      code: `export const url = process.env.DATABASE_URL;`,
+      filename: path.join(nextProject, 'src/server/db.ts'),
+    },
+    // Files outside clientFilePatterns are not checked
+    {
+      code: `export const url = process.env.DATABASE_URL;`,
+      filename: path.join(nextProject, 'scripts/migrate.ts'),
+    },
+    // 'use server' modules and files importing 'server-only' are server code
+    {
+      code: `'use server';\nexport async function save() {\n  return process.env.API_SECRET;\n}`,
+      filename: path.join(nextProject, 'src/app/actions.ts'),
+    },
+    {
+      code: `import 'server-only';\nexport const secret = process.env.API_SECRET;`,
+      filename: path.join(nextProject, 'src/app/lib/secret.ts'),
+    },
+    // Server function callbacks are server scopes
+    {
+      code: `import { createServerFn } from '@tanstack/react-start';\nexport const getUser = createServerFn().handler(() => fetch(process.env.USERS_API));`,
+      filename: path.join(viteProject, 'src/routes/users.tsx'),
+    },
+    // Environment guards are server scopes
+    {
+      code: `export function dsn() {\n  if (import.meta.env.SSR) {\n    return import.meta.env.SENTRY_DSN;\n  }\n  return null;\n}`,
+      filename: path.join(viteProject, 'src/components/sentry.ts'),
+    },
+    // getServerSideProps runs on the server
+    {
+      code: `export async function getServerSideProps() {\n  return { props: { ok: Boolean(process.env.API_SECRET) } };\n}`,
+      filename: path.join(nextProject, 'pages/index.tsx'),
+    },
+    // Writes and deletes are not reads
+    {
+      code: `process.env.API_SECRET = 'test';\ndelete process.env.DATABASE_URL;`,
+      filename: path.join(nextProject, 'src/app/setup.ts'),
+    },
+    // Dynamic keys can't be checked
+    {
+      code: `export const read = (key) => process.env[key];`,
+      filename: path.join(nextProject, 'src/app/env.ts'),
+    },
+    // Custom prefixes and allowed variables
+    {
+      code: `export const config = [process.env.REACT_APP_API_URL, process.env.BUILD_ID];`,
+      filename: '/src/components/config.ts',
+      options: [{ publicEnvPrefixes: ['REACT_APP_'], allowedEnvVars: ['BUILD_ID'] }],
+    },
+  ],
+
+  invalid: [
+    // Private variable in a Next.js client file - BLOCKED
+    {
+      code: `export const url = process.env.DATABASE_URL;`,
+      filename: path.join(nextProject, 'src/app/page.tsx'),
+      errors: [
+        {
+          messageId: 'privateEnvInClient',
+          data: { name: 'DATABASE_URL', prefixes: 'NEXT_PUBLIC_' },
+        },
+      ],
+    },
+    // VITE_ isn't public in Next.js - BLOCKED
+    {
+      code: `export const key = process.env.VITE_KEY;`,
+      filename: path.join(nextProject, 'src/components/key.ts'),
+      errors: [{ messageId: 'privateEnvInClient', data: { name: 'VITE_KEY', prefixes: 'NEXT_PUBLIC_' } }],
+    },
+    // Private Vite variable, including bracket access - BLOCKED
+    {
+      code: `export const keys = [import.meta.env.STRIPE_SECRET, import.meta.env['STRIPE_WEBHOOK_SECRET']];`,
+      filename: path.join(viteProject, 'src/routes/checkout.tsx'),
+      errors: [
+        { messageId: 'privateEnvInClient', data: { name: 'STRIPE_SECRET', prefixes: 'VITE_' } },
+        {
+          messageId: 'privateEnvInClient',
+          data: { name: 'STRIPE_WEBHOOK_SECRET', prefixes: 'VITE_' },
+        },
+      ],
+    },
+    // Destructuring process.env - BLOCKED
+    {
+      code: `const { NEXT_PUBLIC_URL, DATABASE_URL } = process.env;\nexport { NEXT_PUBLIC_URL, DATABASE_URL };`,
+      filename: path.join(nextProject, 'src/app/config.ts'),
+      errors: [{ messageId: 'privateEnvInClient', data: { name: 'DATABASE_URL', prefixes: 'NEXT_PUBLIC_' } }],
+    },
+    // SvelteKit universal load - BLOCKED
+    {
+      code: `export const load = () => ({ key: import.meta.env.API_KEY });`,
+      filename: path.join(kitProject, 'src/routes/+page.ts'),
+      errors: [{ messageId: 'privateEnvInClient', data: { name: 'API_KEY', prefixes: 'PUBLIC_' } }],
+    },
+    // The browser branch of a guard is client code - BLOCKED
+    {
+      code: `if (typeof window !== 'undefined') {\n  console.log(import.meta.env.SENTRY_AUTH_TOKEN);\n}`,
+      filename: path.join(viteProject, 'src/components/sentry.ts'),
+      errors: [{ messageId: 'privateEnvInClient' }],
+    },
+    // 'use client' files are client code with directiveAware - BLOCKED
+    {
+      code: `'use client';\nexport const token = process.env.GITHUB_TOKEN;`,
+      filename: path.join(nextProject, 'lib/github.ts'),
+      options: [{ directiveAware: true }],
+      errors: [{ messageId: 'privateEnvInClient' }],
+    },
+  ],
+});
@@ -0,0 +1,183 @@
+/**
+ * Rule: no-private-env-in-client
+ * ==============================
+ * Reports reads of non-public environment variables (`process.env.X`,
+ * `import.meta.env.X`) in client code. Bundlers either inline the value into
+ * the browser bundle or leave `undefined` behind; both are bugs.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+import { createRule } from './create-rule';
+import {
+  FILE_CLASSIFICATION_SCHEMA,
+  classifyFile,
+  hasServerOnlyMarker,
+} from './file-classification';
+import type { FileClassificationOptions } from './file-classification';
+import { FRAMEWORK_DEFAULTS, detectFramework } from './framework-detection';
+import {
+  SERVER_SCOPE_SCHEMA,
+  createServerScopeTracker,
+  getExpressionPath,
+  mergeListeners,
+} from './server-scopes';
+import type { ServerScopeOptions } from './server-scopes';
+
+/** Objects that hold environment variables */
+const ENV_OBJECTS = new Set(['process.env', 'import.meta.env']);
+
+/** Variables that bundlers always expose to client code (Node's NODE_ENV and Vite's built-ins) */
+const DEFAULT_ALLOWED_ENV_VARS = ['NODE_ENV', 'MODE', 'DEV', 'PROD', 'SSR', 'BASE_URL'];
+
+/** Configuration options for the no-private-env-in-client rule */
+export interface PrivateEnvRuleOptions extends FileClassificationOptions, ServerScopeOptions {
+  /**
+   * Prefixes of environment variables that are safe to read in client code.
+   * Defaults to the detected framework's prefix (`NEXT_PUBLIC_`, `VITE_`,
+   * `PUBLIC_`, ...), or all of them when no framework is detected.
+   */
+  publicEnvPrefixes?: string[];
+  /** Additional variables that are safe to read in client code (merged with NODE_ENV, MODE, DEV, PROD, SSR, BASE_URL) */
+  allowedEnvVars?: string[];
+}
+
+type MessageIds = 'privateEnvInClient';
+type Options = [PrivateEnvRuleOptions?];
+
+/**
+ * Checks if an expression is `process.env` or `import.meta.env`
+ */
+function isEnvObject(node: TSESTree.Node): boolean {
+  return (
+    (node.type === AST_NODE_TYPES.MemberExpression || node.type === AST_NODE_TYPES.MetaProperty) &&
+    ENV_OBJECTS.has(getExpressionPath(node) ?? '')
+  );
+}
+
+/**
+ * Checks if a member expression is written rather than read:
+ * `process.env.X = 'y'` or `delete process.env.X`
+ */
+function isWriteTarget(node: TSESTree.MemberExpression): boolean {
+  const { parent } = node;
+  return (
+    (parent.type === AST_NODE_TYPES.AssignmentExpression && parent.left === node) ||
+    (parent.type === AST_NODE_TYPES.UnaryExpression && parent.operator === 'delete')
+  );
+}
+
+/**
+ * Gets a static property or destructured key name: `X` in `env.X`,
+ * `env['X']` or `const { X } = env`
+ */
+function getStaticKeyName(
+  key: TSESTree.Expression | TSESTree.PrivateIdentifier,
+  computed: boolean
+): string | null {
+  if (!computed && key.type === AST_NODE_TYPES.Identifier) {
+    return key.name;
+  }
+  if (key.type === AST_NODE_TYPES.Literal && typeof key.value === 'string') {
+    return key.value;
+  }
+  return null;
+}
+
+export const noPrivateEnvInClient = createRule<Options, MessageIds>({
+  name: 'no-private-env-in-client',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Prevent non-public environment variables from being read in client code',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ...FILE_CLASSIFICATION_SCHEMA,
+          ...SERVER_SCOPE_SCHEMA,
+          publicEnvPrefixes: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              "Prefixes of variables that are safe in client code (default: the detected framework's prefix)",
+          },
+          allowedEnvVars: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Additional variables that are safe in client code',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      privateEnvInClient:
+        'Environment variable "{{name}}" is read in client code, but only variables starting with {{prefixes}} are exposed to the browser. Read it in server code instead.',
+    },
+  },
+  defaultOptions: [{}],
+
+  create(context: TSESLint.RuleContext<MessageIds, Options>, [options = {}]) {
+    // Same client/server file classification as no-server-imports; a file
+    // that imports 'server-only' is server code wherever it lives
+    if (classifyFile(context, options) !== 'client' || hasServerOnlyMarker(context.sourceCode)) {
+      return {};
+    }
+
+    const publicEnvPrefixes =
+      options.publicEnvPrefixes ??
+      FRAMEWORK_DEFAULTS[detectFramework(context.filename)].publicEnvPrefixes ??
+      [];
+    const allowedEnvVars = new Set([...DEFAULT_ALLOWED_ENV_VARS, ...(options.allowedEnvVars || [])]);
+    const serverScopes = createServerScopeTracker(context, options);
+
+    // Reads are reported in Program:exit, once all server scopes are known
+    const privateEnvReads: { node: TSESTree.Node; name: string }[] = [];
+
+    function isPublicEnvVar(name: string): boolean {
+      return allowedEnvVars.has(name) || publicEnvPrefixes.some((prefix) => name.startsWith(prefix));
+    }
+
+    function collectRead(node: TSESTree.Node, name: string | null): void {
+      if (name && !isPublicEnvVar(name)) {
+        privateEnvReads.push({ node, name });
+      }
+    }
+
+    return mergeListeners(serverScopes.listeners, {
+      // process.env.DATABASE_URL, import.meta.env['STRIPE_SECRET']
+      MemberExpression(node) {
+        if (isEnvObject(node.object) && !isWriteTarget(node)) {
+          collectRead(node, getStaticKeyName(node.property, node.computed));
+        }
+      },
+
+      // const { DATABASE_URL } = process.env
+      VariableDeclarator(node) {
+        if (!node.init || !isEnvObject(node.init) || node.id.type !== AST_NODE_TYPES.ObjectPattern) {
+          return;
+        }
+        for (const property of node.id.properties) {
+          if (property.type === AST_NODE_TYPES.Property) {
+            collectRead(property.key, getStaticKeyName(property.key, property.computed));
+          }
+        }
+      },
+
+      'Program:exit'() {
+        const prefixes = publicEnvPrefixes.join(', ') || '(none)';
+        for (const { node, name } of privateEnvReads) {
+          if (!serverScopes.isInsideServerScope(node) && !serverScopes.isInsideServerGuard(node)) {
+            context.report({
+              node,
+              messageId: 'privateEnvInClient',
+              data: { name, prefixes },
+            });
+          }
+        }
+      },
+    });
+  },
+});
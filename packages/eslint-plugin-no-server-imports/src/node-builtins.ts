@@ -0,0 +1,35 @@
+/**
+ * Node.js Built-in Modules
+ * ========================
+ * Recognizes imports of Node.js built-in modules (`fs`, `node:http`,
+ * `stream/web`, ...) from Node's own `builtinModules` list, so new built-ins
+ * are picked up without maintaining a hand-written list.
+ */
+
+import { builtinModules } from 'node:module';
+
+const NODE_PREFIX = 'node:';
+
+/** Built-in module names without the `node:` prefix */
+const NODE_BUILTIN_MODULES = new Set(builtinModules.map((name) => stripNodePrefix(name)));
+
+/**
+ * Removes the `node:` prefix from a module specifier (`node:fs` -> `fs`)
+ */
+export function stripNodePrefix(source: string): string {
+  return source.startsWith(NODE_PREFIX) ? source.slice(NODE_PREFIX.length) : source;
+}
+
+/**
+ * Returns the built-in module name (without `node:`) an import source refers
+ * to, or null if it isn't a Node.js built-in. Any `node:` specifier is a
+ * built-in, which also covers prefix-only modules like `node:test` and
+ * `node:sqlite` that older Node versions leave out of `builtinModules`.
+ */
+export function getNodeBuiltinName(source: string): string | null {
+  const name = stripNodePrefix(source);
+  if (source.startsWith(NODE_PREFIX) || NODE_BUILTIN_MODULES.has(name)) {
+    return name;
+  }
+  return null;
+}
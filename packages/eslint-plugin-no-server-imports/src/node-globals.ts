@@ -0,0 +1,115 @@
+/**
+ * Node.js Globals
+ * ===============
+ * Finds references to Node.js globals that don't exist in the browser
+ * (`Buffer`, `__dirname`, `process.cwd()`, `require.resolve`, ...), using
+ * scope analysis so local variables with the same name are ignored.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/utils';
+import type { TSESLint, TSESTree } from '@typescript-eslint/utils';
+
+/** Node.js globals that don't exist in the browser */
+const NODE_GLOBALS = [
+  'Buffer',
+  '__dirname',
+  '__filename',
+  'global',
+  'setImmediate',
+  'clearImmediate',
+];
+
+/**
+ * Node.js-only members of `process` and `require`. The objects themselves are
+ * left alone: bundlers replace `process.env.NODE_ENV`, and `require()` calls
+ * are checked as imports.
+ */
+const NODE_GLOBAL_MEMBERS: Record<string, string[]> = {
+  process: [
+    'cwd',
+    'chdir',
+    'exit',
+    'argv',
+    'execPath',
+    'pid',
+    'ppid',
+    'platform',
+    'arch',
+    'memoryUsage',
+    'hrtime',
+    'uptime',
+    'kill',
+    'umask',
+  ],
+  require: ['resolve', 'cache', 'main'],
+};
+
+/** A reference to a Node.js global, named like `Buffer` or `process.cwd` */
+export interface NodeGlobalReference {
+  node: TSESTree.Node;
+  name: string;
+}
+
+/**
+ * Returns the value references to a global: unresolved (`through`)
+ * references, plus references to globals declared through
+ * `languageOptions.globals` (e.g. `globals.node`), which ESLint resolves to
+ * definition-less variables. Type annotations like `: Buffer` are skipped.
+ */
+export function getGlobalReferences(
+  globalScope: TSESLint.Scope.Scope,
+  name: string
+): TSESLint.Scope.Reference[] {
+  const through = globalScope.through.filter((reference) => reference.identifier.name === name);
+  const variable = globalScope.set.get(name);
+  const declared = variable && variable.defs.length === 0 ? variable.references : [];
+  return [...through, ...declared].filter((reference) => !reference.isTypeReference);
+}
+
+/**
+ * Finds references to Node.js globals in a file, skipping `typeof` checks
+ * and anything in `allowed` (a global like `Buffer` or a member like
+ * `process.cwd`)
+ */
+export function findNodeGlobalReferences(
+  sourceCode: TSESLint.SourceCode,
+  allowed: ReadonlySet<string>
+): NodeGlobalReference[] {
+  const globalScope = sourceCode.scopeManager?.globalScope;
+  if (!globalScope) {
+    return [];
+  }
+
+  const found: NodeGlobalReference[] = [];
+  for (const name of NODE_GLOBALS) {
+    if (allowed.has(name)) {
+      continue;
+    }
+    for (const { identifier } of getGlobalReferences(globalScope, name)) {
+      const parent = identifier.parent;
+      if (parent?.type === AST_NODE_TYPES.UnaryExpression && parent.operator === 'typeof') {
+        continue;
+      }
+      found.push({ node: identifier, name });
+    }
+  }
+
+  for (const [object, members] of Object.entries(NODE_GLOBAL_MEMBERS)) {
+    for (const { identifier } of getGlobalReferences(globalScope, object)) {
+      const member = identifier.parent;
+      if (
+        member?.type !== AST_NODE_TYPES.MemberExpression ||
+        member.object !== identifier ||
+        member.computed ||
+        member.property.type !== AST_NODE_TYPES.Identifier
+      ) {
+        continue;
+      }
+      const name = `${object}.${member.property.name}`;
+      if (members.includes(member.property.name) && !allowed.has(name)) {
+        found.push({ node: member, name });
+      }
+    }
+  }
+  return found;
+}
@@ -0,0 +1,795 @@
+/**
+ * Server Scopes
+ * =============
+ * Finds code inside client files that only ever runs on the server: callbacks
+ * passed to server functions (createServerFn, server$, ...), inline
+ * `'use server'` functions, framework data exports like getServerSideProps,
+ * and branches behind environment guards like `if (import.meta.env.SSR)`.
+ */
+
+import { AST_NODE_TYPES, ASTUtils } from '@typescript-eslint/utils';
+import type { JSONSchema, TSESLint, TSESTree } from '@typescript-eslint/utils';
+import { hasDirective } from './file-classification';
+
+/** Default server functions whose callbacks run on the server */
+const DEFAULT_SERVER_FUNCTION_NAMES = [
+  'createServerFn',
+  'createIsomorphicFn',
+  'server$',
+  'action$',
+  'loader$',
+  'defineEventHandler',
+];
+
+/**
+ * Default environment guards: conditions that are only true during SSR.
+ * A leading `!` marks a condition that is only true in the browser.
+ */
+const DEFAULT_SERVER_GUARDS = [
+  'import.meta.env.SSR',
+  'import.meta.server',
+  '!import.meta.client',
+  "typeof window === 'undefined'",
+  "typeof document === 'undefined'",
+];
+
+/** Where a callback passed to a chained server function method runs */
+type ChainMethodSide = 'server' | 'client';
+
+/**
+ * Chained method semantics for server function builders, per framework.
+ * Callbacks passed to a 'client' method run in the browser and are checked
+ * like any other client code; callbacks passed to a 'server' method (or to the
+ * server function call itself) are server scopes. Methods not listed here, and
+ * builders without an entry, are treated as server.
+ */
+const SERVER_FUNCTION_CHAIN_METHODS: Record<
+  string,
+  Record<string, Record<string, ChainMethodSide>>
+> = {
+  'tanstack-start': {
+    createServerFn: {
+      middleware: 'server',
+      validator: 'server',
+      inputValidator: 'server',
+      handler: 'server',
+    },
+    createIsomorphicFn: {
+      server: 'server',
+      client: 'client',
+    },
+    createMiddleware: {
+      middleware: 'server',
+      validator: 'server',
+      inputValidator: 'server',
+      server: 'server',
+      client: 'client',
+    },
+  },
+};
+
+/** Chained method semantics by server function name, across all frameworks */
+const CHAIN_METHODS_BY_FUNCTION = new Map<string, Record<string, ChainMethodSide>>(
+  Object.values(SERVER_FUNCTION_CHAIN_METHODS).flatMap((functions) => Object.entries(functions))
+);
+
+/**
+ * Next.js Pages Router data functions. Next.js strips these exports (and
+ * imports only they use) from the client bundle.
+ */
+const PAGES_ROUTER_DATA_FUNCTIONS = ['getServerSideProps', 'getStaticProps', 'getStaticPaths'];
+
+/** Next.js App Router exports that only run on the server (checked when directiveAware) */
+const APP_ROUTER_SERVER_EXPORTS = ['generateMetadata', 'generateStaticParams'];
+
+/**
+ * A server function that only counts when it is imported from a specific
+ * module, e.g. `{ name: 'createServerFn', from: '@tanstack/react-start' }`
+ */
+export interface ServerFunctionSource {
+  /** Exported name of the server function */
+  name: string;
+  /** Module the server function must be imported from */
+  from: string;
+}
+
+/** Options that decide which code inside a client file runs on the server */
+export interface ServerScopeOptions {
+  /**
+   * Whether callbacks passed to server functions (createServerFn, etc.) are
+   * server scopes. `'use server'` functions, server exports and environment
+   * guards are recognised either way.
+   */
+  checkServerFunctions?: boolean;
+  /**
+   * Server functions to check for. A string matches any callee with that name;
+   * a `{ name, from }` entry only matches the binding imported from `from`,
+   * including renamed imports and namespace access (`Start.createServerFn()`).
+   */
+  serverFunctionNames?: (string | ServerFunctionSource)[];
+  /**
+   * Additional exported function names that only run on the server (merged
+   * with getServerSideProps, getStaticProps and getStaticPaths), e.g. Remix
+   * route `loader` and `action` exports
+   */
+  serverExportNames?: string[];
+  /**
+   * Additional environment guards (merged with `import.meta.env.SSR`,
+   * `import.meta.server`, `!import.meta.client`, and `typeof window` /
+   * `typeof document === 'undefined'`). The branch an `if` or ternary takes
+   * when a guard is true is a server scope; prefix a guard with `!` when it
+   * is only true in the browser.
+   */
+  serverGuards?: string[];
+}
+
+/** JSON schema properties for ServerScopeOptions */
+export const SERVER_SCOPE_SCHEMA: NonNullable<
+  JSONSchema.JSONSchema4ObjectSchema['properties']
+> = {
+  checkServerFunctions: {
+    type: 'boolean',
+    description: 'Check for server function usage',
+  },
+  serverFunctionNames: {
+    type: 'array',
+    items: {
+      oneOf: [
+        { type: 'string' },
+        {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            from: { type: 'string' },
+          },
+          required: ['name', 'from'],
+          additionalProperties: false,
+        },
+      ],
+    },
+    description:
+      'Server function names, or { name, from } entries verified by their import source',
+  },
+  serverExportNames: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Additional exported function names that only run on the server',
+  },
+  serverGuards: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      "Additional conditions that are only true on the server, e.g. \"typeof process === 'object'\" (prefix with ! for browser-only conditions)",
+  },
+};
+
+/** Collects server scopes while a file is traversed */
+export interface ServerScopeTracker {
+  /** Listeners that collect server scopes; merge them into the rule's own */
+  listeners: TSESLint.RuleListener;
+  /**
+   * Checks if a node is inside a server scope: a server function callback, a
+   * `'use server'` function or a server data export. Scopes are only complete
+   * once the whole file has been traversed, so call this from `Program:exit`.
+   */
+  isInsideServerScope(node: TSESTree.Node): boolean;
+  /**
+   * Checks if a node is inside the server-only branch of an environment
+   * guard, like the body of `if (import.meta.env.SSR)`. The branch only runs
+   * during SSR, but static imports it uses are still bundled for the client.
+   * Call this from `Program:exit`.
+   */
+  isInsideServerGuard(node: TSESTree.Node): boolean;
+  /**
+   * Checks if a node is inside the browser-only branch of an environment
+   * guard, like the body of `if (typeof window !== 'undefined')`. Call this
+   * from `Program:exit`.
+   */
+  isInsideClientGuard(node: TSESTree.Node): boolean;
+}
+
+/**
+ * Checks if a node is inside a given scope (function/arrow function)
+ */
+export function isNodeInsideScope(node: TSESTree.Node, scopeNode: TSESTree.Node): boolean {
+  let current: TSESTree.Node | undefined = node;
+  while (current) {
+    if (current === scopeNode) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * Finds the import declaration that binds an identifier, if any
+ */
+export function getImportBinding(
+  sourceCode: TSESLint.SourceCode,
+  identifier: TSESTree.Identifier
+): { specifier: TSESTree.ImportClause; source: string } | null {
+  const variable = ASTUtils.findVariable(sourceCode.getScope(identifier), identifier);
+  const def = variable?.defs[0];
+  if (
+    def?.type !== 'ImportBinding' ||
+    def.node.type === AST_NODE_TYPES.TSImportEqualsDeclaration ||
+    def.parent.type !== AST_NODE_TYPES.ImportDeclaration
+  ) {
+    return null;
+  }
+  return { specifier: def.node, source: def.parent.source.value };
+}
+
+/**
+ * Returns the exported name an import specifier binds, e.g. `building` for
+ * `import { building as prerendering } from '$app/environment'`
+ */
+export function getImportedName(specifier: TSESTree.ImportSpecifier): string {
+  const { imported } = specifier;
+  return imported.type === AST_NODE_TYPES.Identifier ? imported.name : imported.value;
+}
+
+/**
+ * Returns the dotted path of an identifier or member chain, e.g.
+ * `import.meta.env.SSR`, or null for anything else
+ */
+export function getExpressionPath(node: TSESTree.Expression): string | null {
+  if (node.type === AST_NODE_TYPES.Identifier) {
+    return node.name;
+  }
+  if (node.type === AST_NODE_TYPES.MetaProperty) {
+    return `${node.meta.name}.${node.property.name}`;
+  }
+  if (
+    node.type === AST_NODE_TYPES.MemberExpression &&
+    !node.computed &&
+    node.property.type === AST_NODE_TYPES.Identifier
+  ) {
+    const object = getExpressionPath(node.object);
+    return object ? `${object}.${node.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Combines rule listeners; handlers for the same selector run in order
+ */
+export function mergeListeners(...listeners: TSESLint.RuleListener[]): TSESLint.RuleListener {
+  const handlers = new Map<string, ((node: never) => void)[]>();
+  for (const listener of listeners) {
+    for (const [selector, handler] of Object.entries(listener)) {
+      if (handler) {
+        handlers.set(selector, [...(handlers.get(selector) ?? []), handler]);
+      }
+    }
+  }
+  return Object.fromEntries(
+    [...handlers].map(([selector, selectorHandlers]) => [
+      selector,
+      (node: never) => {
+        for (const handler of selectorHandlers) {
+          handler(node);
+        }
+      },
+    ])
+  );
+}
+
+/** An environment guard condition reduced to a comparable key */
+interface GuardKey {
+  key: string;
+  /** Whether the condition is the negation of `key` */
+  negated: boolean;
+  /** The condition with negations stripped */
+  expression: TSESTree.Expression;
+}
+
+/**
+ * Reduces an `if` or ternary condition to a guard key, following `!`
+ * negations. `typeof x !== 'undefined'` becomes the negation of
+ * `typeof x === 'undefined'`, and `==` is treated like `===`.
+ */
+function getGuardKey(node: TSESTree.Expression): GuardKey | null {
+  let expression = node;
+  let negated = false;
+  while (expression.type === AST_NODE_TYPES.UnaryExpression && expression.operator === '!') {
+    expression = expression.argument;
+    negated = !negated;
+  }
+
+  if (expression.type === AST_NODE_TYPES.BinaryExpression) {
+    if (!['===', '==', '!==', '!='].includes(expression.operator)) {
+      return null;
+    }
+    const [typeofNode, literal] =
+      expression.left.type === AST_NODE_TYPES.Literal
+        ? [expression.right, expression.left]
+        : [expression.left, expression.right];
+    if (
+      typeofNode.type !== AST_NODE_TYPES.UnaryExpression ||
+      typeofNode.operator !== 'typeof' ||
+      literal.type !== AST_NODE_TYPES.Literal ||
+      typeof literal.value !== 'string'
+    ) {
+      return null;
+    }
+    const operand = getExpressionPath(typeofNode.argument);
+    if (!operand) {
+      return null;
+    }
+    return {
+      key: `typeof ${operand} === '${literal.value}'`,
+      negated: expression.operator.startsWith('!') ? !negated : negated,
+      expression,
+    };
+  }
+
+  const key = getExpressionPath(expression);
+  return key ? { key, negated, expression } : null;
+}
+
+/**
+ * Parses a configured guard like `"!import.meta.client"` or
+ * `"typeof window !== 'undefined'"` into the key getGuardKey produces, and
+ * whether the guard is true on the server or in the browser
+ */
+function parseServerGuard(guard: string): { key: string; side: 'server' | 'client' } {
+  let text = guard.replaceAll('"', "'").replaceAll(/\s+/g, ' ').trim();
+  let negated = false;
+  while (text.startsWith('!')) {
+    text = text.slice(1).trim();
+    negated = !negated;
+  }
+  const key = text.replace(/ ?(!?)==?=? ?/, (_match, not: string) => {
+    if (not) {
+      negated = !negated;
+    }
+    return ' === ';
+  });
+  return { key, side: negated ? 'client' : 'server' };
+}
+
+/**
+ * Checks if a function body starts with a 'use server' directive (an inline Server Action)
+ */
+export function isUseServerFunction(
+  node:
+    | TSESTree.FunctionDeclaration
+    | TSESTree.FunctionExpression
+    | TSESTree.ArrowFunctionExpression
+): boolean {
+  return (
+    node.body.type === AST_NODE_TYPES.BlockStatement &&
+    hasDirective(node.body.body, 'use server')
+  );
+}
+
+/**
+ * Creates a tracker that collects the server scopes of the linted file
+ */
+export function createServerScopeTracker(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  options: ServerScopeOptions & { directiveAware?: boolean }
+): ServerScopeTracker {
+  const { sourceCode } = context;
+  const checkServerFunctions = options.checkServerFunctions ?? true;
+  // Next.js rejects inline Server Actions in 'use client' modules, and the
+  // module's imports are bundled for the browser either way
+  const isUseClientModule = hasDirective(sourceCode.ast.body, 'use client');
+  const serverFunctions = options.serverFunctionNames || DEFAULT_SERVER_FUNCTION_NAMES;
+  // Bare names match any callee; sourced names are matched against import bindings
+  const serverFunctionNames = new Set<string>();
+  const serverFunctionSources = new Map<string, Set<string>>();
+  for (const entry of serverFunctions) {
+    if (typeof entry === 'string') {
+      serverFunctionNames.add(entry);
+    } else {
+      const names = serverFunctionSources.get(entry.from) ?? new Set<string>();
+      names.add(entry.name);
+      serverFunctionSources.set(entry.from, names);
+    }
+  }
+
+  // Exported functions that the framework runs on the server only
+  const serverExportNames = new Set([
+    ...PAGES_ROUTER_DATA_FUNCTIONS,
+    ...(options.directiveAware ? APP_ROUTER_SERVER_EXPORTS : []),
+    ...(options.serverExportNames || []),
+  ]);
+
+  // Guard key → the side its condition is true on
+  const serverGuards = new Map<string, 'server' | 'client'>();
+  for (const guard of [...DEFAULT_SERVER_GUARDS, ...(options.serverGuards || [])]) {
+    const { key, side } = parseServerGuard(guard);
+    serverGuards.set(key, side);
+  }
+
+  // Track server function callback scopes (functions that run server-side)
+  const serverFunctionScopes = new Set<TSESTree.Node>();
+  // Guard branches that only run during SSR
+  const serverGuardBranches = new Set<TSESTree.Node>();
+  // Guard branches that only run in the browser
+  const clientGuardBranches = new Set<TSESTree.Node>();
+
+  /**
+   * Returns the side a guard condition is true on: configured guards, plus
+   * SvelteKit's `browser` (client) and `building` (server) when imported
+   * from `$app/environment`
+   */
+  function getGuardSide(guard: GuardKey): 'server' | 'client' | null {
+    const configured = serverGuards.get(guard.key);
+    if (configured) {
+      return configured;
+    }
+    if (guard.expression.type !== AST_NODE_TYPES.Identifier) {
+      return null;
+    }
+    const binding = getImportBinding(sourceCode, guard.expression);
+    if (
+      binding?.source !== '$app/environment' ||
+      binding.specifier.type !== AST_NODE_TYPES.ImportSpecifier
+    ) {
+      return null;
+    }
+    const name = getImportedName(binding.specifier);
+    if (name === 'browser') {
+      return 'client';
+    }
+    return name === 'building' ? 'server' : null;
+  }
+
+  /**
+   * Returns the branches of an `if` or ternary guarded by an environment
+   * check. The server branch is the consequent of `if (import.meta.env.SSR)`
+   * or `if (!browser)`, or the alternate of `if (typeof window !== 'undefined')`;
+   * the client branch is the other one.
+   */
+  function getGuardBranches(
+    node: TSESTree.IfStatement | TSESTree.ConditionalExpression
+  ): { server: TSESTree.Node | null; client: TSESTree.Node | null } | null {
+    const guard = getGuardKey(node.test);
+    const side = guard && getGuardSide(guard);
+    if (!side) {
+      return null;
+    }
+    const serverWhenTrue = side === 'server';
+    return serverWhenTrue === guard.negated
+      ? { server: node.alternate, client: node.consequent }
+      : { server: node.consequent, client: node.alternate };
+  }
+
+  /**
+   * Checks if a callee is a sourced server function, e.g. `csf` from
+   * `import { createServerFn as csf } from '@tanstack/react-start'` or
+   * `Start.createServerFn` from a namespace import. Returns the exported name.
+   */
+  function getSourcedServerFunctionName(callee: TSESTree.Expression): string | null {
+    if (callee.type === AST_NODE_TYPES.Identifier) {
+      const binding = getImportBinding(sourceCode, callee);
+      if (binding?.specifier.type !== AST_NODE_TYPES.ImportSpecifier) {
+        return null;
+      }
+      const name = getImportedName(binding.specifier);
+      return serverFunctionSources.get(binding.source)?.has(name) ? name : null;
+    }
+    if (
+      callee.type === AST_NODE_TYPES.MemberExpression &&
+      !callee.computed &&
+      callee.object.type === AST_NODE_TYPES.Identifier &&
+      callee.property.type === AST_NODE_TYPES.Identifier
+    ) {
+      const binding = getImportBinding(sourceCode, callee.object);
+      if (binding?.specifier.type !== AST_NODE_TYPES.ImportNamespaceSpecifier) {
+        return null;
+      }
+      const name = callee.property.name;
+      return serverFunctionSources.get(binding.source)?.has(name) ? name : null;
+    }
+    return null;
+  }
+
+  /**
+   * Returns the server function name a call's callee refers to, or null
+   */
+  function getServerFunctionName(node: TSESTree.CallExpression): string | null {
+    if (
+      node.callee.type === AST_NODE_TYPES.Identifier &&
+      serverFunctionNames.has(node.callee.name)
+    ) {
+      return node.callee.name;
+    }
+    return serverFunctionSources.size > 0 ? getSourcedServerFunctionName(node.callee) : null;
+  }
+
+  /**
+   * Recursively finds the root server function call from a chained call
+   * e.g., createServerFn().handler() -> finds createServerFn()
+   */
+  function findServerFunctionCall(
+    node: TSESTree.CallExpression
+  ): { call: TSESTree.CallExpression; name: string } | null {
+    // Check for direct call: createServerFn(), csf(), Start.createServerFn()
+    const name = getServerFunctionName(node);
+    if (name) {
+      return { call: node, name };
+    }
+    // Check for member call: createServerFn().handler()
+    if (
+      node.callee.type === AST_NODE_TYPES.MemberExpression &&
+      node.callee.object.type === AST_NODE_TYPES.CallExpression
+    ) {
+      return findServerFunctionCall(node.callee.object);
+    }
+    return null;
+  }
+
+  /**
+   * Checks if callbacks passed to a call in a server function chain run on
+   * the server, e.g. `.server(fn)` does but `.client(fn)` of
+   * createIsomorphicFn() does not
+   */
+  function isServerChainCall(
+    call: TSESTree.CallExpression,
+    serverFn: { call: TSESTree.CallExpression; name: string }
+  ): boolean {
+    // Arguments to the server function itself: createServerFn(...), server$(fn)
+    if (call === serverFn.call) {
+      return true;
+    }
+    const methods = CHAIN_METHODS_BY_FUNCTION.get(serverFn.name);
+    if (
+      !methods ||
+      call.callee.type !== AST_NODE_TYPES.MemberExpression ||
+      call.callee.computed ||
+      call.callee.property.type !== AST_NODE_TYPES.Identifier
+    ) {
+      return true;
+    }
+    return methods[call.callee.property.name] !== 'client';
+  }
+
+  /**
+   * Checks if an identifier is passed directly as a server-side argument of
+   * a server function chain, e.g. `getUser` in `createServerFn().handler(getUser)`
+   */
+  function isServerChainArgument(identifier: TSESTree.Identifier): boolean {
+    const call = identifier.parent;
+    if (
+      call?.type !== AST_NODE_TYPES.CallExpression ||
+      !call.arguments.includes(identifier)
+    ) {
+      return false;
+    }
+    const serverFn = findServerFunctionCall(call);
+    return serverFn !== null && isServerChainCall(call, serverFn);
+  }
+
+  /**
+   * Resolves an identifier to the same-module function declaration or
+   * `const` function expression it names, with its variable and the
+   * statement that declares it
+   */
+  function resolveLocalFunction(identifier: TSESTree.Identifier): {
+    fn: TSESTree.FunctionLike;
+    declaration: TSESTree.Node;
+    variable: TSESLint.Scope.Variable;
+  } | null {
+    const variable = ASTUtils.findVariable(sourceCode.getScope(identifier), identifier);
+    if (!variable || variable.defs.length !== 1) {
+      return null;
+    }
+    const [def] = variable.defs;
+    if (def.node.type === AST_NODE_TYPES.FunctionDeclaration) {
+      return { fn: def.node, declaration: def.node, variable };
+    }
+    if (
+      def.node.type === AST_NODE_TYPES.VariableDeclarator &&
+      def.parent?.type === AST_NODE_TYPES.VariableDeclaration &&
+      def.parent.kind === 'const' &&
+      (def.node.init?.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+        def.node.init?.type === AST_NODE_TYPES.FunctionExpression)
+    ) {
+      return { fn: def.node.init, declaration: def.parent, variable };
+    }
+    return null;
+  }
+
+  /**
+   * Resolves a named handler passed to a server function chain to its
+   * same-module function declaration or `const` function expression. Only
+   * returns it when every other reference is also a server chain argument
+   * (or a recursive call from inside the function), so a handler shared
+   * with client code or exported from the module stays client code.
+   */
+  function resolveServerHandler(
+    identifier: TSESTree.Identifier
+  ): TSESTree.FunctionLike | null {
+    const resolved = resolveLocalFunction(identifier);
+    if (!resolved || resolved.declaration.parent?.type === AST_NODE_TYPES.ExportNamedDeclaration) {
+      return null;
+    }
+    const { fn: handler, variable } = resolved;
+    const onlyServerReferences = variable.references.every(
+      (reference) =>
+        reference.init ||
+        isNodeInsideScope(reference.identifier, handler) ||
+        (reference.identifier.type === AST_NODE_TYPES.Identifier &&
+          isServerChainArgument(reference.identifier))
+    );
+    return onlyServerReferences ? handler : null;
+  }
+
+  /**
+   * Extracts the function/arrow function arguments that run on the server
+   * from a call expression chain
+   */
+  function extractCallbacksFromChain(
+    node: TSESTree.CallExpression,
+    serverFn: { call: TSESTree.CallExpression; name: string }
+  ): TSESTree.Node[] {
+    const callbacks: TSESTree.Node[] = [];
+
+    // Walk up the call chain to collect all callbacks
+    let current: TSESTree.Node = node;
+    while (current.type === AST_NODE_TYPES.CallExpression) {
+      // Check arguments for functions, skipping client-side methods
+      const args = isServerChainCall(current, serverFn) ? current.arguments : [];
+      for (const arg of args) {
+        if (
+          arg.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+          arg.type === AST_NODE_TYPES.FunctionExpression
+        ) {
+          callbacks.push(arg);
+        } else if (arg.type === AST_NODE_TYPES.Identifier) {
+          // Named handler: createServerFn().handler(getUserHandler)
+          const handler = resolveServerHandler(arg);
+          if (handler) {
+            callbacks.push(handler);
+          }
+        }
+      }
+
+      // Move to parent if it's a chained call
+      if (
+        current.parent?.type === AST_NODE_TYPES.MemberExpression &&
+        current.parent.parent?.type === AST_NODE_TYPES.CallExpression
+      ) {
+        current = current.parent.parent;
+      } else {
+        break;
+      }
+    }
+
+    return callbacks;
+  }
+
+  /**
+   * Registers a function whose body starts with 'use server' (an inline
+   * Server Action) as a server scope, unless the module is 'use client'
+   */
+  function collectUseServerFunction(
+    node:
+      | TSESTree.FunctionDeclaration
+      | TSESTree.FunctionExpression
+      | TSESTree.ArrowFunctionExpression
+  ): void {
+    if (!isUseClientModule && isUseServerFunction(node)) {
+      serverFunctionScopes.add(node);
+    }
+  }
+
+  /**
+   * Collects exported server-only functions as server scopes, e.g.
+   * `export async function getServerSideProps() {}`,
+   * `export const getStaticProps = async () => {}` or
+   * `export { loadProps as getServerSideProps }`
+   */
+  function collectServerExport(node: TSESTree.ExportNamedDeclaration): void {
+    if (!node.declaration) {
+      // Export lists name local functions; re-exports from other modules are skipped
+      const specifiers = node.source ? [] : node.specifiers;
+      for (const specifier of specifiers) {
+        const exportedName =
+          specifier.exported.type === AST_NODE_TYPES.Identifier
+            ? specifier.exported.name
+            : specifier.exported.value;
+        if (
+          specifier.local.type !== AST_NODE_TYPES.Identifier ||
+          !serverExportNames.has(exportedName)
+        ) {
+          continue;
+        }
+        const resolved = resolveLocalFunction(specifier.local);
+        if (resolved) {
+          serverFunctionScopes.add(resolved.fn);
+        }
+      }
+      return;
+    }
+    const { declaration } = node;
+    if (declaration.type === AST_NODE_TYPES.FunctionDeclaration) {
+      if (declaration.id && serverExportNames.has(declaration.id.name)) {
+        serverFunctionScopes.add(declaration);
+      }
+      return;
+    }
+    if (declaration.type !== AST_NODE_TYPES.VariableDeclaration) {
+      return;
+    }
+    for (const declarator of declaration.declarations) {
+      if (
+        declarator.id.type === AST_NODE_TYPES.Identifier &&
+        serverExportNames.has(declarator.id.name) &&
+        (declarator.init?.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+          declarator.init?.type === AST_NODE_TYPES.FunctionExpression)
+      ) {
+        serverFunctionScopes.add(declarator.init);
+      }
+    }
+  }
+
+  function isInsideServerScope(node: TSESTree.Node): boolean {
+    for (const scope of serverFunctionScopes) {
+      if (isNodeInsideScope(node, scope)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  function isInsideServerGuard(node: TSESTree.Node): boolean {
+    for (const branch of serverGuardBranches) {
+      if (isNodeInsideScope(node, branch)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  function isInsideClientGuard(node: TSESTree.Node): boolean {
+    for (const branch of clientGuardBranches) {
+      if (isNodeInsideScope(node, branch)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return {
+    listeners: {
+      // Collect all callbacks from server function call chains
+      CallExpression(node) {
+        const serverFn = checkServerFunctions ? findServerFunctionCall(node) : null;
+        if (serverFn) {
+          for (const callback of extractCallbacksFromChain(node, serverFn)) {
+            serverFunctionScopes.add(callback);
+          }
+        }
+      },
+
+      // `if (import.meta.env.SSR) { ... }` and `if (!browser) { ... }` only run during SSR
+      'IfStatement, ConditionalExpression'(
+        node: TSESTree.IfStatement | TSESTree.ConditionalExpression
+      ) {
+        const branches = getGuardBranches(node);
+        if (branches?.server) {
+          serverGuardBranches.add(branches.server);
+        }
+        if (branches?.client) {
+          clientGuardBranches.add(branches.client);
+        }
+      },
+
+      // Inline Server Actions ('use server' functions) run on the server
+      FunctionDeclaration: collectUseServerFunction,
+      FunctionExpression: collectUseServerFunction,
+      ArrowFunctionExpression: collectUseServerFunction,
+
+      ExportNamedDeclaration: collectServerExport,
+    },
+    isInsideServerScope,
+    isInsideServerGuard,
+    isInsideClientGuard,
+  };
+}
@@ -62,7 +62,13 @@ const testCases: TestCase[] = [
     app: 'astro-example',
     file: 'src/pages/bad-example.astro',
     shouldError: true,
-    description: 'Astro: bad-example.astro should error (server imports in client)',
+    description: 'Astro: bad-example.astro should error (server imports in client script)',
+  },
+  {
+    app: 'astro-example',
+    file: 'src/pages/frontmatter-example.astro',
+    shouldError: false,
+    description: 'Astro: frontmatter-example.astro should NOT error (frontmatter runs on the server)',
   },
   {
     app: 'astro-example',